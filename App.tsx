@@ -3,14 +3,58 @@ import React, { useState, useEffect, useRef } from 'react';
 import { 
   Plus, Mic, ArrowLeft, Save, FileText, Trash2, StopCircle, 
   Loader2, Tag, X, Sparkles, Search, Copy, Check, Clock, Download, Play, Pause,
-  Settings, History, Info
+  Settings, History, Info, Upload, Bookmark, StickyNote, FileAudio, WandSparkles, AlertTriangle
 } from 'lucide-react';
 import jsPDF from 'jspdf';
-import { AppView, Note, ProcessingStatus } from './types';
-import { transcribeAudio, summarizeText } from './services/ai';
+import { AppView, AudioProfileId, AudioSegment, InputIssue, Note, NoteRevision, PauseInterval, ProcessingStatus, RecordingMarker, RevisionField } from './types';
+import { summarizeText } from './services/ai';
+import { transcribeInSegments } from './services/segmentation';
+import { pickRecordingMimeType, extensionForMimeType, FALLBACK_MIME_TYPE } from './services/mediaFormats';
+import { AUDIO_IMPORT_ACCEPT, isSupportedAudioFile, resolveAudioMimeType, readAudioDuration, titleFromFileName } from './services/audioImport';
+import { saveAudio, getAudio, deleteAudio, deleteNoteAudio, deleteOrphanedAudio, reencryptAllAudio, getAudioParts, segmentAudioId } from './services/audioStore';
+import { loadNotes, saveNotes, hasQuarantinedData, isQuotaError, DEFAULT_LANGUAGE } from './services/storage';
+import { isVaultEnabled, isVaultUnlocked, unlockVault, createVault, changeVaultPassphrase, verifyVaultPassphrase, removeVault } from './services/vault';
+import { loadSettings, saveSettings, AppSettings, SyncSettings as SyncConfig, SilenceSettings as SilenceConfig } from './services/settings';
+import { syncLibrary, applySyncResult, resolveConflict, loadSyncState, SyncConflict, ConflictChoice } from './services/sync';
+import { isTrashed, findExpired } from './services/trash';
+import { loadTombstones, addTombstones, clearTombstones, mergeNotes, subscribeToNoteChanges } from './services/tabSync';
+import { loadDrafts, saveDraft, discardDraft, replaceDrafts, hasUnsavedChanges, Draft } from './services/drafts';
+import { acquireInput, releaseInput, getInput, AudioInput } from './services/audioInput';
+import { AUDIO_PROFILES, DEFAULT_AUDIO_PROFILE, profileKeyForDevice, toTrackConstraints } from './services/audioProfiles';
+import { watchVoiceActivity } from './services/voiceActivity';
+import { prepareForUpload, enhanceForPlayback, MAX_PREPARE_SECONDS } from './services/audioProcessing';
+import { saveSession, appendChunk, listSessions, assembleSession, deleteSession, reencryptAllChunks, RecordingSession } from './services/recordingStore';
+import { createRevision, recordRevision, pruneRevisions, REVISION_FIELDS } from './services/revisions';
+import { createBackup, readBackup, findCollisions, mergeBackup, BackupContents, ImportStrategy } from './services/backup';
+import { formatTime, formatDate, formatBytes } from './utils/format';
+import { downloadBlob } from './utils/blob';
 import { Button } from './components/Button';
 import { NoteCard } from './components/NoteCard';
 import { Waveform } from './components/Waveform';
+import { ImportDialog } from './components/ImportDialog';
+import { VaultLock } from './components/VaultLock';
+import { SettingsView } from './components/SettingsView';
+import { VaultSettings } from './components/VaultSettings';
+import { TrashView } from './components/TrashView';
+import { TrashSettings } from './components/TrashSettings';
+import { RevisionHistory } from './components/RevisionHistory';
+import { SyncSettings } from './components/SyncSettings';
+import { ConflictDialog } from './components/ConflictDialog';
+import { DraftRecoveryDialog } from './components/DraftRecoveryDialog';
+import { RecordingRecoveryDialog } from './components/RecordingRecoveryDialog';
+import { AudioInputSettings } from './components/AudioInputSettings';
+import { AudioProfileSettings } from './components/AudioProfileSettings';
+import { RecordingSourceSettings } from './components/RecordingSourceSettings';
+import { SourceLevels } from './components/SourceLevels';
+import { SilenceSettings } from './components/SilenceSettings';
+import { MarkerTimeline } from './components/MarkerTimeline';
+import { EnhancementSettings } from './components/EnhancementSettings';
+import { LevelMeter } from './components/LevelMeter';
+import { InputIssues } from './components/InputIssues';
+import { InputWarning } from './services/inputMonitor';
+import { InterruptionDialog } from './components/InterruptionDialog';
+import { watchCapture, checkCapture, InterruptionReason } from './services/captureWatchdog';
+import { requestWakeLock, releaseWakeLock } from './services/wakeLock';
 
 const Logo = () => (
   <div className="flex items-center gap-3">
@@ -24,148 +68,868 @@ const Logo = () => (
   </div>
 );
 
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const DRAFT_AUTOSAVE_DELAY_MS = 800;
+// Intervalo em que o MediaRecorder entrega trechos, gravados imediatamente no IndexedDB
+const RECORDING_TIMESLICE_MS = 5000;
+const AUTO_PAUSE_AFTER_MS = 4000;
+
+const PROCESSING_LABELS: Partial<Record<ProcessingStatus, string>> = {
+  [ProcessingStatus.PREPARING]: "Otimizando Áudio",
+  [ProcessingStatus.TRANSCRIBING]: "IA Transcrevendo Áudio",
+  [ProcessingStatus.SUMMARIZING]: "Gerando Resumo Inteligente",
+};
+
+interface RecordingMeta {
+  durationSeconds: number;
+  pauses: PauseInterval[];
+  markers: RecordingMarker[];
+  inputIssues: InputIssue[];
+  audioProfile?: AudioProfileId;
+  sessionId?: string;
+  title?: string;
+  appendToNoteId?: string;
+}
+
+// Áudio carregado para reprodução; partNumber e mimeType vêm da parte correspondente em getAudioParts
+interface PlaybackPart {
+  url: string;
+  offsetSeconds: number;
+  partNumber: number;
+  mimeType?: string;
+}
+
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.LIST);
   const [notes, setNotes] = useState<Note[]>([]);
+  const [isStoreReady, setIsStoreReady] = useState(false);
+  // Problema ao gravar a biblioteca, exibido na lista até ser resolvido
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(() => isVaultEnabled() && !isVaultUnlocked());
+  const [vaultEnabled, setVaultEnabled] = useState(isVaultEnabled);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [lastSyncAt, setLastSyncAt] = useState(() => loadSyncState().lastSyncAt);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [pendingDrafts, setPendingDrafts] = useState<Draft[]>([]);
+  const [interruptedSessions, setInterruptedSessions] = useState<RecordingSession[]>([]);
   const [activeNote, setActiveNote] = useState<Note | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [copiedSection, setCopiedSection] = useState<string | null>(null);
   
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isAutoPaused, setIsAutoPaused] = useState(false);
+  const [audioInput, setAudioInput] = useState<AudioInput | null>(null);
   const [recordingDuration, setRecordingDuration] = useState(0);
+  const [recordingMarkers, setRecordingMarkers] = useState<RecordingMarker[]>([]);
+  const [quickNote, setQuickNote] = useState('');
+  // Nota que está sendo continuada pela gravação atual
+  const [appendTarget, setAppendTarget] = useState<Note | null>(null);
+  const [interruption, setInterruption] = useState<InterruptionReason | null>(null);
+  // Após perder o microfone, a gravação recomeça emendada à nota assim que o trecho for processado
+  const resumeIntoNoteRef = useRef(false);
+  // A pausa atual foi feita pela interrupção (e não pelo usuário), então pode ser desfeita sozinha
+  const pausedByInterruptionRef = useRef(false);
   const [processingStatus, setProcessingStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
+  const [segmentProgress, setSegmentProgress] = useState<{ done: number; total: number } | null>(null);
+  const [uploadSavings, setUploadSavings] = useState<{ before: number; after: number } | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
+  const pausesRef = useRef<PauseInterval[]>([]);
+  const pauseStartedAtRef = useRef<number | null>(null);
+  const sessionRef = useRef<RecordingSession | null>(null);
+  const chunkIndexRef = useRef(0);
+  const recordingDurationRef = useRef(0);
+  recordingDurationRef.current = recordingDuration;
+  const markersRef = useRef<RecordingMarker[]>([]);
+  markersRef.current = recordingMarkers;
+  const inputIssuesRef = useRef<InputIssue[]>([]);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const hydratedAudioUrlRef = useRef<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  // Trechos das continuações da nota aberta, tocados em sequência depois do áudio principal
+  const [segmentAudio, setSegmentAudio] = useState<{ noteId: string; parts: PlaybackPart[] } | null>(null);
+  const [currentPart, setCurrentPart] = useState(0);
+  const [enhancedAudio, setEnhancedAudio] = useState<{ noteId: string; urls: string[] } | null>(null);
+  const [playEnhanced, setPlayEnhanced] = useState(false);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  // Posição a restaurar quando o player troca entre a versão original e a realçada
+  const pendingSeekRef = useRef<number | null>(null);
+  const backupInputRef = useRef<HTMLInputElement | null>(null);
+  const audioFileInputRef = useRef<HTMLInputElement | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ contents: BackupContents; collisions: number } | null>(null);
+
+  // Referências atualizadas para callbacks assíncronos (sincronização periódica)
+  const notesRef = useRef(notes);
+  const settingsRef = useRef(settings);
+  const isSyncingRef = useRef(false);
+  notesRef.current = notes;
+  settingsRef.current = settings;
+
+  const loadLibrary = async () => {
+    try {
+      const { notes: loaded, quarantineKey, readOnly } = await loadNotes();
+      setNotes(loaded);
+      if (readOnly) {
+        // Sem a cópia isolada, salvar agora apagaria de vez os dados que não puderam ser lidos
+        setStorageError("Os dados salvos estão corrompidos e não havia espaço para isolá-los. Nada será salvo até liberar espaço no navegador e recarregar a página.");
+        return;
+      }
+      setIsStoreReady(true);
+      const drafts = await loadDrafts();
+      setPendingDrafts(drafts);
+      setInterruptedSessions(await listSessions());
+      // Enquanto houver dados isolados, os áudios das notas ilegíveis ainda podem ser recuperados
+      if (!hasQuarantinedData()) {
+        const owners = [...loaded, ...drafts.map(d => d.note)];
+        deleteOrphanedAudio(new Set(owners.flatMap(note => getAudioParts(note).map(part => part.audioId))))
+          .catch(err => console.error("Erro ao limpar áudios órfãos", err));
+      }
+      if (quarantineKey) {
+        alert("Alguns dados salvos estavam corrompidos ou em formato desconhecido e foram isolados para não serem perdidos.");
+      }
+    } catch (e) {
+      console.error("Erro ao carregar dados", e);
+    }
+  };
+
+  useEffect(() => {
+    // Com o cofre ativo, o carregamento só acontece após o desbloqueio
+    if (!isLocked) loadLibrary();
+  }, []);
+
+  useEffect(() => {
+    // Evita sobrescrever os dados salvos antes do carregamento inicial
+    if (!isStoreReady) return;
+    saveNotes(notes)
+      .then(() => setStorageError(null))
+      .catch(err => {
+        console.error("Erro ao salvar notas", err);
+        if (isQuotaError(err) && notes.some(note => pruneRevisions(note) !== note)) {
+          // Libera espaço descartando versões intermediárias; o efeito tenta salvar de novo
+          alert("O armazenamento do navegador encheu. As versões intermediárias do histórico das notas foram descartadas para liberar espaço.");
+          setNotes(prev => prev.map(pruneRevisions));
+          return;
+        }
+        setStorageError(isQuotaError(err)
+          ? "O armazenamento do navegador está cheio e as últimas alterações não foram salvas. Exclua notas da lixeira ou exporte um backup."
+          : `Não foi possível salvar as notas: ${err.message}`);
+      });
+  }, [notes, isStoreReady]);
+
+  const savedActiveNote = activeNote ? notes.find(n => n.id === activeNote.id) : undefined;
+  const isEditorDirty = view === AppView.EDIT && !!activeNote && hasUnsavedChanges(activeNote, savedActiveNote);
+  const playbackParts = activeNote?.audioUrl
+    ? [{ url: activeNote.audioUrl, offsetSeconds: 0, partNumber: 1, mimeType: activeNote.audioMimeType }, ...(segmentAudio?.noteId === activeNote.id ? segmentAudio.parts : [])]
+    : [];
+
+  // Autosave do rascunho enquanto há edições não salvas
+  useEffect(() => {
+    if (!isEditorDirty || !activeNote) return;
+    const timeout = window.setTimeout(() => saveDraft(activeNote, !savedActiveNote), DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [activeNote, isEditorDirty]);
+
+  useEffect(() => {
+    if (!isEditorDirty) return;
+    const handler = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handler);
+    return () => window.removeEventListener('beforeunload', handler);
+  }, [isEditorDirty]);
+
+  useEffect(() => releaseInput, []);
+
+  // Força a entrega do trecho atual antes que o celular bloqueie ou a aba vá para segundo plano
+  // e confere, na volta, se o sistema não interrompeu a captura enquanto a página estava oculta
+  useEffect(() => {
+    const handler = () => {
+      const recorder = mediaRecorderRef.current;
+      if (document.visibilityState === 'hidden' && recorder?.state === 'recording') {
+        recorder.requestData();
+      }
+      const input = getInput();
+      if (document.visibilityState === 'visible' && recorder && input && isRecordingRef.current) {
+        const reason = checkCapture(input, recorder);
+        if (reason) captureHandlersRef.current.onInterrupt(reason);
+      }
+    };
+    document.addEventListener('visibilitychange', handler);
+    return () => document.removeEventListener('visibilitychange', handler);
+  }, []);
 
+  // Mescla alterações feitas em outras abas abertas
   useEffect(() => {
-    const saved = localStorage.getItem('voznote_data');
-    if (saved) {
+    if (!isStoreReady) return;
+    return subscribeToNoteChanges(async () => {
       try {
-        setNotes(JSON.parse(saved));
+        const { notes: remote } = await loadNotes();
+        setNotes(prev => mergeNotes(prev, remote, loadTombstones()));
       } catch (e) {
-        console.error("Erro ao carregar dados", e);
+        // Outra aba pode ter ativado o cofre
+        setVaultEnabled(isVaultEnabled());
+        if (isVaultEnabled() && !isVaultUnlocked()) setIsLocked(true);
+        else console.error("Erro ao sincronizar abas", e);
       }
-    }
-  }, []);
+    });
+  }, [isStoreReady]);
 
+  // Sincronização com o servidor: ao abrir, periodicamente e ao voltar a ficar online
   useEffect(() => {
-    const notesToSave = notes.map(({ audioUrl, ...rest }) => rest);
-    localStorage.setItem('voznote_data', JSON.stringify(notesToSave));
-  }, [notes]);
+    if (!isStoreReady) return;
+    runSync();
+    const interval = window.setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', runSync);
+    };
+  }, [isStoreReady]);
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
 
-  const startRecording = async () => {
+  // Esvazia da lixeira as notas que passaram do prazo de retenção
+  useEffect(() => {
+    if (!isStoreReady) return;
+    const expired = findExpired(notes, settings.trashRetentionDays);
+    if (expired.length > 0) purgeNotes(expired);
+  }, [isStoreReady, settings.trashRetentionDays]);
+
+  // Libera as URLs do áudio reidratado e da versão realçada ao sair da edição
+  useEffect(() => {
+    if (view !== AppView.EDIT && hydratedAudioUrlRef.current) {
+      URL.revokeObjectURL(hydratedAudioUrlRef.current);
+      hydratedAudioUrlRef.current = null;
+      setIsPlaying(false);
+    }
+    if (view !== AppView.EDIT && segmentAudio) {
+      segmentAudio.parts.forEach(part => URL.revokeObjectURL(part.url));
+      setSegmentAudio(null);
+    }
+    if (view !== AppView.EDIT && enhancedAudio) {
+      enhancedAudio.urls.forEach(url => URL.revokeObjectURL(url));
+      setEnhancedAudio(null);
+      setPlayEnhanced(false);
+    }
+  }, [view]);
+
+  const startRecording = async (appendTo?: Note) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      // Otimização de Bitrate para gravações longas (48kbps é excelente para voz e reduz tamanho do arquivo)
-      const mediaRecorder = new MediaRecorder(stream, {
-        audioBitsPerSecond: 48000
+      const profile = AUDIO_PROFILES[audioProfileId];
+      const input = await acquireInput({
+        deviceId: settings.audioInputDeviceId || undefined,
+        constraints: toTrackConstraints(profile),
+        source: settings.recordingSource,
+      });
+      setAudioInput(input);
+      const mimeType = pickRecordingMimeType();
+      const mediaRecorder = new MediaRecorder(input.stream, {
+        ...(mimeType ? { mimeType } : {}),
+        audioBitsPerSecond: profile.bitrate
       });
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
 
+      const session: RecordingSession = {
+        id: Date.now().toString(),
+        startedAt: new Date().toISOString(),
+        mimeType: mediaRecorder.mimeType || mimeType || FALLBACK_MIME_TYPE,
+        durationSeconds: 0,
+        pauses: [],
+        markers: [],
+        inputIssues: [],
+        audioProfile: profile.id,
+        ...(appendTo ? { noteId: appendTo.id } : {}),
+      };
+      sessionRef.current = session;
+      chunkIndexRef.current = 0;
+      saveSession(session).catch(err => console.error("Erro ao iniciar sessão de gravação", err));
+
       mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) audioChunksRef.current.push(e.data);
+        if (e.data.size === 0) return;
+        audioChunksRef.current.push(e.data);
+        persistChunk(e.data);
       };
 
-      mediaRecorder.start();
+      mediaRecorder.start(RECORDING_TIMESLICE_MS);
+      pausesRef.current = [];
+      pauseStartedAtRef.current = null;
+      setRecordingMarkers([]);
+      inputIssuesRef.current = [];
+      setQuickNote('');
+      setAppendTarget(appendTo ?? null);
       setIsRecording(true);
+      setIsPaused(false);
       setRecordingDuration(0);
       setView(AppView.RECORD);
+      startTimer();
+    } catch (err: any) {
+      releaseInput();
+      // Cancelar o compartilhamento da aba gera NotAllowedError, igual à negação do microfone
+      const isPermission = err?.name === 'NotAllowedError' || err?.name === 'NotFoundError';
+      alert(isPermission || !err?.message
+        ? "Permissão de microfone necessária ou dispositivo não suportado."
+        : err.message);
+    }
+  };
 
-      timerRef.current = window.setInterval(() => {
-        setRecordingDuration(p => p + 1);
-      }, 1000);
-    } catch (err) {
-      alert("Permissão de microfone necessária ou dispositivo não suportado.");
+  const persistChunk = (chunk: Blob) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const index = chunkIndexRef.current++;
+    session.durationSeconds = recordingDurationRef.current;
+    session.pauses = [...pausesRef.current];
+    session.markers = [...markersRef.current];
+    session.inputIssues = [...inputIssuesRef.current];
+    appendChunk(session.id, index, chunk)
+      .then(() => saveSession(session))
+      .catch(err => console.error("Erro ao salvar trecho da gravação", err));
+  };
+
+  const addMarker = (text?: string) => {
+    const marker: RecordingMarker = {
+      id: Date.now().toString(),
+      offsetSeconds: recordingDurationRef.current,
+      createdAt: new Date().toISOString(),
+      ...(text?.trim() ? { text: text.trim() } : {}),
+    };
+    const markers = [...markersRef.current, marker];
+    markersRef.current = markers;
+    setRecordingMarkers(markers);
+
+    const session = sessionRef.current;
+    if (session) {
+      session.markers = markers;
+      saveSession(session).catch(err => console.error("Erro ao salvar marcador", err));
     }
   };
 
+  // Fecha o problema de captação em aberto e, se houver um novo aviso, começa a registrá-lo
+  const handleInputWarning = (warning: InputWarning | null) => {
+    const issues = inputIssuesRef.current;
+    const open = issues[issues.length - 1];
+    if (open && open.durationSeconds === 0) {
+      open.durationSeconds = Math.max(1, recordingDurationRef.current - open.offsetSeconds);
+    }
+    if (warning) {
+      issues.push({ type: warning, offsetSeconds: recordingDurationRef.current, durationSeconds: 0 });
+    }
+  };
+
+  const submitQuickNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quickNote.trim()) return;
+    addMarker(quickNote);
+    setQuickNote('');
+  };
+
+  const startTimer = () => {
+    timerRef.current = window.setInterval(() => {
+      setRecordingDuration(p => p + 1);
+    }, 1000);
+  };
+
+  const stopTimer = () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const closePauseInterval = () => {
+    if (pauseStartedAtRef.current === null) return;
+    const last = pausesRef.current[pausesRef.current.length - 1];
+    last.durationSeconds = Math.round((Date.now() - pauseStartedAtRef.current) / 1000);
+    pauseStartedAtRef.current = null;
+  };
+
+  const pauseRecording = (auto = false) => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+    recorder.pause();
+    stopTimer();
+    pauseStartedAtRef.current = Date.now();
+    pausesRef.current.push({
+      offsetSeconds: recordingDurationRef.current,
+      startedAt: new Date().toISOString(),
+      durationSeconds: 0,
+      ...(auto ? { auto: true } : {}),
+    });
+    setIsPaused(true);
+    setIsAutoPaused(auto);
+  };
+
+  const resumeRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+    recorder.resume();
+    pausedByInterruptionRef.current = false;
+    closePauseInterval();
+    startTimer();
+    setIsPaused(false);
+    setIsAutoPaused(false);
+  };
+
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
+    const recorder = mediaRecorderRef.current;
+    if (recorder && isRecording) {
       setIsRecording(false);
-      if (timerRef.current) clearInterval(timerRef.current);
+      setIsPaused(false);
+      setIsAutoPaused(false);
+      setInterruption(null);
+      pausedByInterruptionRef.current = false;
+      closePauseInterval();
+      handleInputWarning(null);
+      stopTimer();
 
-      mediaRecorderRef.current.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+      const finish = async () => {
+        const session = sessionRef.current;
+        sessionRef.current = null;
+        // O tipo real vem do próprio gravador (ex.: audio/mp4 no Safari)
+        const type = audioChunksRef.current[0]?.type || session?.mimeType || FALLBACK_MIME_TYPE;
+        const audioBlob = new Blob(audioChunksRef.current, { type });
         const audioUrl = URL.createObjectURL(audioBlob);
-        mediaRecorderRef.current?.stream.getTracks().forEach(t => t.stop());
-        await processAudio(audioBlob, audioUrl);
+        releaseInput();
+        setAudioInput(null);
+        await processAudio(audioBlob, audioUrl, {
+          durationSeconds: recordingDuration,
+          pauses: [...pausesRef.current],
+          markers: [...markersRef.current],
+          inputIssues: [...inputIssuesRef.current],
+          audioProfile: session?.audioProfile,
+          sessionId: session?.id,
+          appendToNoteId: session?.noteId,
+        });
       };
+      // O gravador para sozinho quando o sistema encerra a trilha do microfone
+      if (recorder.state === 'inactive') {
+        finish();
+      } else {
+        recorder.onstop = finish;
+        recorder.stop();
+      }
     }
   };
 
-  const processAudio = async (blob: Blob, audioUrl: string) => {
+  const handleInterruption = (reason: InterruptionReason) => {
+    // Uma pausa manual anterior continua valendo quando a captura volta
+    if ((reason === 'muted' || reason === 'suspended') && mediaRecorderRef.current?.state === 'recording') {
+      pausedByInterruptionRef.current = true;
+      pauseRecording();
+    }
+    if (reason === 'ended' || reason === 'error') stopTimer();
+    // Perda da captura prevalece sobre avisos que permitem retomar
+    setInterruption(current =>
+      current === 'ended' || current === 'error' ? current : reason
+    );
+  };
+
+  const handleCaptureRestored = () => {
+    if (interruption !== 'muted' && interruption !== 'suspended') return;
+    setInterruption(null);
+    if (pausedByInterruptionRef.current) resumeRecording();
+  };
+
+  const resumeAfterInterruption = () => {
+    audioInput?.context.resume().catch(() => {});
+    setInterruption(null);
+    resumeRecording();
+  };
+
+  const finishAndContinue = () => {
+    resumeIntoNoteRef.current = true;
+    stopRecording();
+  };
+
+  // Retoma a gravação na nota que acabou de ser processada, quando o usuário pediu para continuar
+  const continueAfterInterruption = (note: Note) => {
+    if (!resumeIntoNoteRef.current) return;
+    resumeIntoNoteRef.current = false;
+    const { audioUrl: _, ...rest } = note;
+    const target = commitNote(rest);
+    // O rascunho da nota nova ficaria para trás sem o trecho continuado
+    discardDraft(note.id);
+    startRecording(target);
+  };
+
+  // Versões atuais das ações do gravador para uso dentro de callbacks de longa duração
+  const recorderActionsRef = useRef({ pauseRecording, resumeRecording, stopRecording });
+  recorderActionsRef.current = { pauseRecording, resumeRecording, stopRecording };
+  const captureHandlersRef = useRef({ onInterrupt: handleInterruption, onRestore: handleCaptureRestored });
+  captureHandlersRef.current = { onInterrupt: handleInterruption, onRestore: handleCaptureRestored };
+  const isRecordingRef = useRef(isRecording);
+  isRecordingRef.current = isRecording;
+
+  // Interrupções da captura: trilha encerrada, microfone silenciado pelo sistema, áudio suspenso
+  useEffect(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!isRecording || !audioInput || !recorder) return;
+    return watchCapture(audioInput, recorder, {
+      onInterrupt: reason => captureHandlersRef.current.onInterrupt(reason),
+      onRestore: () => captureHandlersRef.current.onRestore(),
+    });
+  }, [isRecording, audioInput]);
+
+  // Impede que a tela apague no meio da gravação; o bloqueio é refeito quando a página volta a ficar visível
+  useEffect(() => {
+    if (view !== AppView.RECORD || !isRecording) return;
+    requestWakeLock();
+    const handler = () => {
+      if (document.visibilityState === 'visible') requestWakeLock();
+    };
+    document.addEventListener('visibilitychange', handler);
+    return () => {
+      document.removeEventListener('visibilitychange', handler);
+      releaseWakeLock();
+    };
+  }, [view, isRecording]);
+  const isAutoPausedRef = useRef(isAutoPaused);
+  isAutoPausedRef.current = isAutoPaused;
+
+  // Pausa/retomada e parada automáticas conforme o silêncio detectado na captura
+  // Numa pausa manual o silêncio não conta; ao retomar, a contagem recomeça do zero
+  const isManuallyPaused = isPaused && !isAutoPaused;
+  useEffect(() => {
+    const { autoPause, autoStopMinutes } = settings.silence;
+    if (!isRecording || isManuallyPaused || !audioInput || (!autoPause && !autoStopMinutes)) return;
+
+    return watchVoiceActivity(audioInput.analyser, silentForMs => {
+      const actions = recorderActionsRef.current;
+      const state = mediaRecorderRef.current?.state;
+      const isCounting = state === 'recording' || (state === 'paused' && isAutoPausedRef.current);
+      if (!isCounting) return;
+      if (autoStopMinutes && silentForMs >= autoStopMinutes * 60 * 1000) {
+        actions.stopRecording();
+      } else if (autoPause && state === 'recording' && silentForMs >= AUTO_PAUSE_AFTER_MS) {
+        actions.pauseRecording(true);
+      } else if (state === 'paused' && isAutoPausedRef.current && silentForMs === 0) {
+        actions.resumeRecording();
+      }
+    });
+  }, [isRecording, isManuallyPaused, audioInput, settings.silence]);
+
+  // Versão enviada para a IA; a nota continua guardando o áudio original para reprodução
+  const prepareUpload = async (blob: Blob, durationSeconds: number): Promise<Blob> => {
+    setProcessingStatus(ProcessingStatus.PREPARING);
+    let result;
+    try {
+      result = await prepareForUpload(blob, {
+        trimSilence: settings.silence.trim,
+        enhance: settings.enhanceSpeech,
+        durationSeconds,
+      });
+    } catch (error) {
+      console.warn("Não foi possível otimizar o áudio, enviando o original", error);
+      return blob;
+    }
+    if (!result.hasSpeech) throw new Error("Nenhuma fala foi detectada na gravação.");
+    if (result.blob !== blob) setUploadSavings({ before: blob.size, after: result.blob.size });
+    return result.blob;
+  };
+
+  // Continuação: o áudio novo vira um trecho à parte da nota, sem recodificar o que já foi gravado,
+  // e o resumo é refeito sobre a transcrição inteira
+  const appendToNote = async (target: Note, blob: Blob, transcription: string, meta: RecordingMeta) => {
+    const { audioUrl: _, ...base } = target;
+    const offsetSeconds = base.durationSeconds;
+    const shift = <T extends { offsetSeconds: number }>(items: T[]) =>
+      items.map(item => ({ ...item, offsetSeconds: item.offsetSeconds + offsetSeconds }));
+
+    const markers = [...(base.markers ?? []), ...shift(meta.markers)];
+    const pauses = [...(base.pauses ?? []), ...shift(meta.pauses)];
+    const inputIssues = [...(base.inputIssues ?? []), ...shift(meta.inputIssues)];
+    const fullTranscription = `${base.transcription.trimEnd()}\n\n[${formatTime(offsetSeconds)}]\n${transcription.trim()}`;
+
+    setProcessingStatus(ProcessingStatus.SUMMARIZING);
+    const summary = await summarizeText(fullTranscription, markers);
+
+    const segments = base.audioSegments ?? [];
+    const segment: AudioSegment = {
+      index: Math.max(0, ...segments.map(s => s.index)) + 1,
+      offsetSeconds,
+      mimeType: blob.type || FALLBACK_MIME_TYPE,
+    };
+    await saveAudio(segmentAudioId(target.id, segment.index), blob);
+    if (meta.sessionId) deleteSession(meta.sessionId).catch(err => console.error("Erro ao descartar sessão", err));
+
+    const saved = commitNote({
+      ...base,
+      transcription: fullTranscription,
+      summary,
+      durationSeconds: Math.round(offsetSeconds + meta.durationSeconds),
+      markers: markers.length > 0 ? markers : undefined,
+      pauses: pauses.length > 0 ? pauses : undefined,
+      inputIssues: inputIssues.length > 0 ? inputIssues : undefined,
+      audioSegments: [...segments, segment],
+    }, 'continuation');
+    openNote(saved);
+    return saved;
+  };
+
+  const processAudio = async (blob: Blob, audioUrl: string, meta: RecordingMeta) => {
     setProcessingStatus(ProcessingStatus.TRANSCRIBING);
+    const noteId = Date.now().toString();
+    // Se a nota continuada foi apagada nesse meio tempo, a gravação vira uma nota nova
+    const appendTo = meta.appendToNoteId
+      ? notesRef.current.find(n => n.id === meta.appendToNoteId && !isTrashed(n))
+      : undefined;
     try {
-      // Verificação de tamanho para alertar o usuário preventivamente
-      if (blob.size > 20 * 1024 * 1024) {
-        throw new Error("Arquivo de áudio muito grande para a API. Tente gravar em partes menores.");
+      const uploadBlob = await prepareUpload(blob, meta.durationSeconds);
+      setProcessingStatus(ProcessingStatus.TRANSCRIBING);
+
+      // Gravações grandes são transcritas em trechos antes do resumo
+      const transcription = await transcribeInSegments(uploadBlob, (done, total) => setSegmentProgress({ done, total }));
+      setSegmentProgress(null);
+      if (appendTo) {
+        continueAfterInterruption(await appendToNote(appendTo, blob, transcription, meta));
+        return;
       }
 
-      const transcription = await transcribeAudio(blob);
       setProcessingStatus(ProcessingStatus.SUMMARIZING);
-      const summary = await summarizeText(transcription);
+      const summary = await summarizeText(transcription, meta.markers);
       
+      const now = new Date().toISOString();
       const newNote: Note = {
-        id: Date.now().toString(),
-        title: `Nota ${new Date().toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`,
-        date: new Date().toLocaleDateString('pt-BR'),
-        durationFormatted: formatTime(recordingDuration),
+        id: noteId,
+        title: meta.title || `Nota ${new Date().toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`,
+        createdAt: now,
+        updatedAt: now,
+        durationSeconds: meta.durationSeconds,
         transcription,
         summary,
         tags: [],
+        language: DEFAULT_LANGUAGE,
+        audioMimeType: blob.type || FALLBACK_MIME_TYPE,
+        pauses: meta.pauses.length > 0 ? meta.pauses : undefined,
+        markers: meta.markers.length > 0 ? meta.markers : undefined,
+        inputIssues: meta.inputIssues.length > 0 ? meta.inputIssues : undefined,
+        audioProfile: meta.audioProfile,
         audioUrl
       };
+      // Guarda a saída original da IA para permitir reverter edições depois
+      newNote.revisions = [createRevision(newNote, 'ai')];
+
+      // O rascunho vem antes do áudio para que a limpeza de órfãos nunca apague uma nota ainda não salva
+      saveDraft(newNote, true);
+      // A sessão de recuperação só é descartada depois que o áudio está salvo na nota
+      saveAudio(noteId, blob)
+        .then(() => { if (meta.sessionId) return deleteSession(meta.sessionId); })
+        .catch(err => console.error("Erro ao salvar áudio", err));
       
       setActiveNote(newNote);
       setView(AppView.EDIT);
+      continueAfterInterruption(newNote);
     } catch (error: any) {
+      resumeIntoNoteRef.current = false;
       console.error("Erro no processamento:", error);
       alert(`Erro no processamento: ${error.message || "Falha na conexão com a IA"}`);
+      // O áudio continua salvo na sessão e pode ser reprocessado pela recuperação
+      if (meta.sessionId) listSessions().then(setInterruptedSessions).catch(() => {});
       setView(AppView.LIST);
     } finally {
       setProcessingStatus(ProcessingStatus.IDLE);
+      setSegmentProgress(null);
+      setUploadSavings(null);
+      setAppendTarget(null);
     }
   };
 
   const downloadAudio = () => {
     if (!activeNote?.audioUrl) return;
-    const link = document.createElement('a');
-    link.href = activeNote.audioUrl;
-    link.download = `${activeNote.title.replace(/\s+/g, '_')}.webm`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const baseName = activeNote.title.replace(/\s+/g, '_');
+    // Cada continuação é baixada como um arquivo à parte, numerada pela posição na nota
+    playbackParts.forEach(part => {
+      const link = document.createElement('a');
+      link.href = part.url;
+      link.download = `${baseName}${part.partNumber > 1 ? `_parte${part.partNumber}` : ''}.${extensionForMimeType(part.mimeType ?? activeNote.audioMimeType)}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    });
   };
 
-  const deleteNote = (id: string) => {
-    if (confirm("Deseja realmente excluir esta nota?")) {
-      setNotes(prev => prev.filter(n => n.id !== id));
-      setView(AppView.LIST);
+  const openNote = async (note: Note) => {
+    setActiveNote(note);
+    setPlaybackTime(0);
+    setCurrentPart(0);
+    setPlayEnhanced(false);
+    setView(AppView.EDIT);
+
+    try {
+      if (!note.audioUrl) {
+        const blob = await getAudio(note.id);
+        if (!blob) return;
+        const audioUrl = URL.createObjectURL(blob);
+        if (hydratedAudioUrlRef.current) URL.revokeObjectURL(hydratedAudioUrlRef.current);
+        hydratedAudioUrlRef.current = audioUrl;
+        setActiveNote(current => current?.id === note.id ? { ...current, audioUrl } : current);
+      }
+
+      // Trechos ainda não baixados pela sincronização ficam de fora da reprodução
+      const parts: PlaybackPart[] = [];
+      for (const [i, part] of getAudioParts(note).entries()) {
+        if (i === 0) continue;
+        const blob = await getAudio(part.audioId);
+        if (blob) parts.push({ url: URL.createObjectURL(blob), offsetSeconds: part.offsetSeconds, partNumber: i + 1, mimeType: part.mimeType });
+      }
+      setSegmentAudio(previous => {
+        previous?.parts.forEach(part => URL.revokeObjectURL(part.url));
+        return { noteId: note.id, parts };
+      });
+    } catch (err) {
+      console.error("Erro ao carregar áudio", err);
     }
   };
 
-  const saveNote = () => {
-    if (!activeNote) return;
+  // O áudio de uma nota nova já está no IndexedDB; sem a nota, ele ficaria órfão
+  const discardUnsavedAudio = (id: string) => {
+    if (notesRef.current.some(n => n.id === id)) return;
+    deleteAudio(id).catch(err => console.error("Erro ao remover áudio", err));
+  };
+
+  const leaveEditor = () => {
+    if (isEditorDirty && activeNote) {
+      if (!confirm("Esta nota tem alterações não salvas. Descartar e sair?")) return;
+      discardDraft(activeNote.id);
+      if (!savedActiveNote) discardUnsavedAudio(activeNote.id);
+    }
+    setView(AppView.LIST);
+  };
+
+  const recoverSession = async (session: RecordingSession) => {
+    setInterruptedSessions(prev => prev.filter(s => s.id !== session.id));
+    try {
+      const blob = await assembleSession(session);
+      if (blob.size === 0) {
+        alert("Nenhum áudio foi salvo nesta gravação.");
+        deleteSession(session.id);
+        return;
+      }
+      setView(AppView.RECORD);
+      await processAudio(blob, URL.createObjectURL(blob), {
+        durationSeconds: session.durationSeconds,
+        pauses: session.pauses,
+        markers: session.markers ?? [],
+        inputIssues: session.inputIssues ?? [],
+        audioProfile: session.audioProfile,
+        sessionId: session.id,
+        appendToNoteId: session.noteId,
+      });
+    } catch (error: any) {
+      console.error("Erro ao recuperar gravação:", error);
+      alert(`Não foi possível recuperar a gravação: ${error.message}`);
+    }
+  };
+
+  const discardSession = (session: RecordingSession) => {
+    if (!confirm("Descartar definitivamente o áudio desta gravação interrompida?")) return;
+    setInterruptedSessions(prev => prev.filter(s => s.id !== session.id));
+    deleteSession(session.id).catch(err => console.error("Erro ao descartar gravação", err));
+  };
+
+  const restoreDraft = (draft: Draft) => {
+    setPendingDrafts(prev => prev.filter(d => d !== draft));
+    openNote(draft.note);
+  };
+
+  const dismissDraft = (draft: Draft) => {
+    setPendingDrafts(prev => prev.filter(d => d !== draft));
+    discardDraft(draft.note.id);
+    if (draft.isNew) discardUnsavedAudio(draft.note.id);
+  };
+
+  const deleteNote = (note: Note) => {
+    discardDraft(note.id);
+    const deletedAt = new Date().toISOString();
+    // Nota recém-transcrita ainda não salva vai para a lixeira como as demais, junto com o áudio
+    if (!notes.some(n => n.id === note.id)) commitNote({ ...note, deletedAt });
+    else setNotes(prev => prev.map(n => n.id === note.id ? { ...n, deletedAt, updatedAt: deletedAt } : n));
+    setView(AppView.LIST);
+  };
+
+  const restoreNote = (id: string) => {
+    setNotes(prev => prev.map(n => {
+      if (n.id !== id) return n;
+      const { deletedAt, ...rest } = n;
+      return { ...rest, updatedAt: new Date().toISOString() };
+    }));
+  };
+
+  const purgeNotes = (ids: string[]) => {
+    addTombstones(ids);
+    notesRef.current
+      .filter(n => ids.includes(n.id))
+      .forEach(note => deleteNoteAudio(note).catch(err => console.error("Erro ao remover áudio", err)));
+    setNotes(prev => prev.filter(n => !ids.includes(n.id)));
+  };
+
+  const deletePermanently = (id: string) => {
+    if (confirm("Excluir definitivamente esta nota e seu áudio?")) purgeNotes([id]);
+  };
+
+  const emptyTrash = () => {
+    if (confirm("Excluir definitivamente todas as notas da lixeira?")) {
+      purgeNotes(notes.filter(isTrashed).map(n => n.id));
+    }
+  };
+
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const audioProfileKey = profileKeyForDevice(settings.audioInputDeviceId);
+  const audioProfileId = settings.audioProfiles[audioProfileKey] ?? DEFAULT_AUDIO_PROFILE;
+
+  const updateAudioProfile = (profileId: AudioProfileId) => {
+    setSettings(prev => ({ ...prev, audioProfiles: { ...prev.audioProfiles, [audioProfileKey]: profileId } }));
+  };
+
+  const commitNote = (note: Note, source: NoteRevision['source'] = 'edit'): Note => {
+    // URL reidratada é revogada ao sair da edição; não deve ficar no estado
+    const { audioUrl, ...rest } = note;
+    const noteToSave: Note = recordRevision({
+      ...(audioUrl === hydratedAudioUrlRef.current ? rest : note),
+      updatedAt: new Date().toISOString(),
+    }, source);
     setNotes(prev => {
-      const exists = prev.find(n => n.id === activeNote.id);
-      if (exists) return prev.map(n => n.id === activeNote.id ? activeNote : n);
-      return [activeNote, ...prev];
+      const exists = prev.find(n => n.id === noteToSave.id);
+      if (exists) return prev.map(n => n.id === noteToSave.id ? noteToSave : n);
+      return [noteToSave, ...prev];
     });
+    return noteToSave;
+  };
+
+  const saveNote = () => {
+    if (!activeNote) return;
+    commitNote(activeNote);
+    discardDraft(activeNote.id);
     setView(AppView.LIST);
   };
 
+  const revertToRevision = (revision: NoteRevision, fields: RevisionField[] = REVISION_FIELDS) => {
+    if (!activeNote) return;
+    const reverted = { ...activeNote };
+    fields.forEach(field => { reverted[field] = revision[field]; });
+    const saved = commitNote(reverted, 'revert');
+    setActiveNote({ ...saved, audioUrl: activeNote.audioUrl });
+  };
+
+  const continueRecording = () => {
+    if (!activeNote) return;
+    // Edições pendentes são salvas antes, pois a nota será atualizada ao fim da gravação
+    const target = isEditorDirty || !savedActiveNote ? commitNote(activeNote) : savedActiveNote;
+    discardDraft(activeNote.id);
+    startRecording(target);
+  };
+
   const togglePlayback = () => {
     if (!audioRef.current) return;
     if (isPlaying) {
@@ -176,6 +940,79 @@ const App: React.FC = () => {
     setIsPlaying(!isPlaying);
   };
 
+  const toggleEnhancedPlayback = async () => {
+    if (!activeNote?.audioUrl || isEnhancing) return;
+    pendingSeekRef.current = audioRef.current?.currentTime ?? 0;
+    if (playEnhanced) {
+      setPlayEnhanced(false);
+      return;
+    }
+
+    if (activeNote.durationSeconds > MAX_PREPARE_SECONDS) {
+      alert("Esta gravação é longa demais para gerar a versão realçada no navegador.");
+      pendingSeekRef.current = null;
+      return;
+    }
+    if (enhancedAudio?.noteId !== activeNote.id || enhancedAudio.urls.length !== playbackParts.length) {
+      setIsEnhancing(true);
+      try {
+        const urls: string[] = [];
+        for (const part of playbackParts) {
+          const original = await fetch(part.url).then(response => response.blob());
+          urls.push(URL.createObjectURL(await enhanceForPlayback(original)));
+        }
+        enhancedAudio?.urls.forEach(url => URL.revokeObjectURL(url));
+        setEnhancedAudio({ noteId: activeNote.id, urls });
+      } catch (error) {
+        console.error("Erro ao realçar áudio:", error);
+        alert("Não foi possível gerar a versão realçada deste áudio.");
+        pendingSeekRef.current = null;
+        return;
+      } finally {
+        setIsEnhancing(false);
+      }
+    }
+    setPlayEnhanced(true);
+  };
+
+  const restorePlaybackPosition = () => {
+    const audio = audioRef.current;
+    if (!audio || pendingSeekRef.current === null) return;
+    audio.currentTime = pendingSeekRef.current;
+    pendingSeekRef.current = null;
+    if (isPlaying) audio.play();
+  };
+
+  // Com continuações, a posição na linha do tempo da nota é convertida para o trecho correspondente
+  const seekTo = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const index = Math.max(0, playbackParts.filter(part => part.offsetSeconds <= seconds).length - 1);
+    const position = seconds - (playbackParts[index]?.offsetSeconds ?? 0);
+    setPlaybackTime(seconds);
+    if (index !== currentPart) {
+      pendingSeekRef.current = position;
+      setCurrentPart(index);
+      setIsPlaying(true);
+      return;
+    }
+    audio.currentTime = position;
+    if (!isPlaying) {
+      audio.play();
+      setIsPlaying(true);
+    }
+  };
+
+  const handlePartEnded = () => {
+    if (currentPart >= playbackParts.length - 1) {
+      setIsPlaying(false);
+      setCurrentPart(0);
+      return;
+    }
+    pendingSeekRef.current = 0;
+    setCurrentPart(currentPart + 1);
+  };
+
   const copyToClipboard = async (text: string, section: string) => {
     await navigator.clipboard.writeText(text);
     setCopiedSection(section);
@@ -190,7 +1027,7 @@ const App: React.FC = () => {
     doc.text(activeNote.title, 20, 25);
     doc.setFontSize(10);
     doc.setTextColor(100);
-    doc.text(`Data: ${activeNote.date} | Duração: ${activeNote.durationFormatted}`, 20, 32);
+    doc.text(`Data: ${formatDate(activeNote.createdAt)} | Duração: ${formatTime(activeNote.durationSeconds)}`, 20, 32);
     doc.setDrawColor(200);
     doc.line(20, 38, 190, 38);
     doc.setFontSize(14);
@@ -203,11 +1040,217 @@ const App: React.FC = () => {
     doc.save(`${activeNote.title}.pdf`);
   };
 
-  const filteredNotes = notes.filter(n => 
+  const exportLibrary = async () => {
+    try {
+      const backup = await createBackup(notes);
+      downloadBlob(backup, `voznote-backup-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (error: any) {
+      console.error("Erro ao exportar backup:", error);
+      alert(`Erro ao exportar backup: ${error.message}`);
+    }
+  };
+
+  const applyImport = async (contents: BackupContents, strategy: ImportStrategy) => {
+    setPendingImport(null);
+    const result = mergeBackup(notes, contents, strategy);
+    try {
+      for (const { id, blob } of result.audioToSave) await saveAudio(id, blob);
+    } catch (error) {
+      console.error("Erro ao restaurar áudios:", error);
+    }
+    const importedIds = new Set(contents.notes.map(n => n.id));
+    clearTombstones(result.notes.filter(n => importedIds.has(n.id)).map(n => n.id));
+    setNotes(result.notes);
+    alert(`${result.imported} nota(s) importada(s)${result.skipped ? `, ${result.skipped} ignorada(s)` : ''}.`);
+  };
+
+  const importLibrary = async (file: File) => {
+    try {
+      const contents = await readBackup(file);
+      const collisions = findCollisions(notes, contents.notes).length;
+      if (collisions > 0) {
+        setPendingImport({ contents, collisions });
+      } else {
+        await applyImport(contents, 'skip');
+      }
+    } catch (error: any) {
+      console.error("Erro ao importar backup:", error);
+      alert(`Erro ao importar backup: ${error.message}`);
+    }
+  };
+
+  // Arquivos externos passam pelo mesmo fluxo das gravações, um de cada vez
+  const importAudioFiles = async (files: File[]) => {
+    if (isRecording || processingStatus !== ProcessingStatus.IDLE) return;
+    const supported = files.filter(isSupportedAudioFile);
+    if (supported.length < files.length) {
+      alert("Alguns arquivos foram ignorados. Formatos aceitos: mp3, m4a, wav, ogg e opus.");
+    }
+
+    for (const file of supported) {
+      const blob = file.slice(0, file.size, resolveAudioMimeType(file));
+      setView(AppView.RECORD);
+      await processAudio(blob, URL.createObjectURL(blob), {
+        durationSeconds: await readAudioDuration(blob),
+        pauses: [],
+        markers: [],
+        inputIssues: [],
+        title: titleFromFileName(file.name),
+      });
+    }
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    importAudioFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const unlock = async (passphrase: string) => {
+    await unlockVault(passphrase);
+    setIsLocked(false);
+    await loadLibrary();
+  };
+
+  const enableVault = async (passphrase: string) => {
+    const drafts = await loadDrafts();
+    const key = await createVault(passphrase);
+    setVaultEnabled(true);
+    await reencryptAllAudio(null, key);
+    await reencryptAllChunks(null, key);
+    await saveNotes(notes);
+    await replaceDrafts(drafts);
+  };
+
+  const changePassphrase = async (current: string, next: string) => {
+    await changeVaultPassphrase(current, next);
+  };
+
+  // A configuração do cofre só é apagada depois que tudo foi regravado sem criptografia
+  const disableVault = async (passphrase: string) => {
+    const drafts = await loadDrafts();
+    const previousKey = await verifyVaultPassphrase(passphrase);
+    await reencryptAllAudio(previousKey, null);
+    await reencryptAllChunks(previousKey, null);
+    await saveNotes(notes, null);
+    await replaceDrafts(drafts, null);
+    removeVault();
+    setVaultEnabled(false);
+    // Um salvamento automático feito durante a regravação pode ter usado a chave antiga
+    await saveNotes(notesRef.current);
+  };
+
+  const activeNotes = notes.filter(n => !isTrashed(n));
+  const trashedNotes = notes.filter(isTrashed);
+
+  const runSync = async () => {
+    const config = settingsRef.current.sync;
+    if (!config.endpoint || isSyncingRef.current || !navigator.onLine) return;
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    setSyncError(null);
+    try {
+      const result = await syncLibrary(notesRef.current, config);
+      // Sem a lápide, outra aba aberta devolveria as notas removidas no servidor
+      addTombstones(result.removedIds);
+      setNotes(prev => applySyncResult(prev, result));
+      notesRef.current
+        .filter(n => result.removedIds.includes(n.id))
+        .forEach(note => deleteNoteAudio(note).catch(err => console.error("Erro ao remover áudio", err)));
+      setConflicts(result.conflicts);
+      setLastSyncAt(loadSyncState().lastSyncAt);
+    } catch (error: any) {
+      console.error("Erro na sincronização:", error);
+      setSyncError(error.message || "Falha na sincronização.");
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  const resolveSyncConflict = (choice: ConflictChoice) => {
+    const [conflict, ...rest] = conflicts;
+    const resolved = resolveConflict(conflict, choice);
+    setNotes(prev => {
+      const added = resolved.filter(r => !prev.some(n => n.id === r.id));
+      return [...added, ...prev.map(n => resolved.find(r => r.id === n.id) ?? n)];
+    });
+    setConflicts(rest);
+    // Envia as escolhas locais assim que o estado for atualizado
+    if (rest.length === 0) setTimeout(runSync, 0);
+  };
+
+  const updateSyncConfig = (changes: Partial<SyncConfig>) => {
+    setSettings(prev => ({ ...prev, sync: { ...prev.sync, ...changes } }));
+  };
+
+  const updateSilenceConfig = (changes: Partial<SilenceConfig>) => {
+    setSettings(prev => ({ ...prev, silence: { ...prev.silence, ...changes } }));
+  };
+
+  const filteredNotes = activeNotes.filter(n => 
     n.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
     n.summary.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  if (isLocked) {
+    return <VaultLock onUnlock={unlock} />;
+  }
+
+  const conflictDialog = conflicts.length > 0 && (
+    <ConflictDialog conflict={conflicts[0]} remaining={conflicts.length} onResolve={resolveSyncConflict} />
+  );
+
+  if (view === AppView.SETTINGS) {
+    return (
+      <SettingsView onBack={() => setView(AppView.LIST)}>
+        <VaultSettings
+          isEnabled={vaultEnabled}
+          onEnable={enableVault}
+          onChangePassphrase={changePassphrase}
+          onDisable={disableVault}
+        />
+        <TrashSettings
+          retentionDays={settings.trashRetentionDays}
+          onChange={trashRetentionDays => updateSettings({ trashRetentionDays })}
+        />
+        <AudioInputSettings
+          deviceId={settings.audioInputDeviceId}
+          onChange={audioInputDeviceId => updateSettings({ audioInputDeviceId })}
+        />
+        <AudioProfileSettings profileId={audioProfileId} onChange={updateAudioProfile} />
+        <RecordingSourceSettings
+          source={settings.recordingSource}
+          onChange={recordingSource => updateSettings({ recordingSource })}
+        />
+        <SilenceSettings config={settings.silence} onChange={updateSilenceConfig} />
+        <EnhancementSettings enabled={settings.enhanceSpeech} onChange={enhanceSpeech => updateSettings({ enhanceSpeech })} />
+        <SyncSettings
+          config={settings.sync}
+          isSyncing={isSyncing}
+          lastSyncAt={lastSyncAt}
+          lastError={syncError}
+          onChange={updateSyncConfig}
+          onSyncNow={runSync}
+        />
+        {conflictDialog}
+      </SettingsView>
+    );
+  }
+
+  if (view === AppView.TRASH) {
+    return (
+      <TrashView
+        notes={trashedNotes}
+        retentionDays={settings.trashRetentionDays}
+        onRestore={restoreNote}
+        onDeletePermanently={deletePermanently}
+        onEmpty={emptyTrash}
+        onBack={() => setView(AppView.LIST)}
+      />
+    );
+  }
+
   if (view === AppView.RECORD) {
     return (
       <div className="h-full bg-slate-950 flex flex-col items-center justify-center p-8 text-center safe-top safe-bottom">
@@ -222,9 +1265,27 @@ const App: React.FC = () => {
                 <p className="text-3xl font-black text-white tracking-tight drop-shadow-md">Processando...</p>
                 <div className="bg-slate-900/50 px-6 py-2 rounded-full border border-cyan-500/20">
                   <p className="text-cyan-400 font-bold tracking-[0.15em] uppercase text-xs">
-                    {processingStatus === ProcessingStatus.TRANSCRIBING ? "IA Transcrevendo Áudio" : "Gerando Resumo Inteligente"}
+                    {PROCESSING_LABELS[processingStatus]}
                   </p>
                 </div>
+                {uploadSavings && uploadSavings.after < uploadSavings.before && (
+                  <p className="text-[10px] text-slate-500 uppercase font-black tracking-widest">
+                    Envio reduzido de {formatBytes(uploadSavings.before)} para {formatBytes(uploadSavings.after)}
+                  </p>
+                )}
+                {segmentProgress && segmentProgress.total > 1 && (
+                  <div className="w-64 mx-auto space-y-2">
+                    <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-cyan-400 to-blue-600 transition-[width] duration-500"
+                        style={{ width: `${(segmentProgress.done / segmentProgress.total) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-[10px] text-slate-500 uppercase font-black tracking-widest">
+                      Trecho {Math.min(segmentProgress.done + 1, segmentProgress.total)} de {segmentProgress.total}
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           ) : (
@@ -244,22 +1305,81 @@ const App: React.FC = () => {
 
               <div className="flex flex-col items-center gap-8 w-full">
                 <div className="space-y-2">
+                  {appendTarget && (
+                    <p className="text-slate-500 text-xs font-bold truncate max-w-[300px] mx-auto">Continuando “{appendTarget.title}”</p>
+                  )}
                   <span className="text-8xl font-mono font-black text-white tracking-tighter tabular-nums drop-shadow-2xl block">
                     {formatTime(recordingDuration)}
                   </span>
                   <div className="flex items-center justify-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>
-                    <p className="text-red-500 font-black uppercase tracking-[0.4em] text-[10px] opacity-80">Gravando Agora</p>
+                    {isPaused ? (
+                      <p className="text-amber-400 font-black uppercase tracking-[0.4em] text-[10px] opacity-80">
+                        {isAutoPaused ? 'Pausado · Silêncio' : 'Pausado'}
+                      </p>
+                    ) : (
+                      <>
+                        <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>
+                        <p className="text-red-500 font-black uppercase tracking-[0.4em] text-[10px] opacity-80">Gravando Agora</p>
+                      </>
+                    )}
                   </div>
                 </div>
                 
                 <div className="w-full max-w-[300px] h-20 bg-slate-900/20 rounded-2xl p-2 border border-white/5">
-                  <Waveform isRecording={isRecording} />
+                  <Waveform analyser={audioInput?.analyser ?? null} isPaused={isPaused} />
+                </div>
+
+                {audioInput && (
+                  <LevelMeter analyser={audioInput.analyser} active={!isPaused} onWarningChange={handleInputWarning} />
+                )}
+
+                {audioInput?.sourceAnalysers.system && (
+                  <SourceLevels mic={audioInput.sourceAnalysers.mic} system={audioInput.sourceAnalysers.system} />
+                )}
+
+                <div className="w-full space-y-3">
+                  <form onSubmit={submitQuickNote} className="flex gap-2">
+                    <input
+                      value={quickNote}
+                      onChange={e => setQuickNote(e.target.value)}
+                      placeholder="Anotação rápida..."
+                      className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 text-sm text-white placeholder:text-slate-600 outline-none focus:ring-2 focus:ring-cyan-500/20"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!quickNote.trim()}
+                      className="p-3 bg-slate-900 border border-slate-800 rounded-2xl text-slate-400 hover:text-amber-400 disabled:opacity-40 transition-colors"
+                      title="Salvar anotação neste momento"
+                    >
+                      <StickyNote className="w-5 h-5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => addMarker()}
+                      className="p-3 bg-slate-900 border border-slate-800 rounded-2xl text-slate-400 hover:text-amber-400 transition-colors"
+                      title="Marcar este momento"
+                    >
+                      <Bookmark className="w-5 h-5" />
+                    </button>
+                  </form>
+                  {recordingMarkers.length > 0 && (
+                    <p className="text-[10px] text-amber-400/80 uppercase font-black tracking-widest">
+                      {recordingMarkers.length} {recordingMarkers.length === 1 ? 'marcador' : 'marcadores'} · último em {formatTime(recordingMarkers[recordingMarkers.length - 1].offsetSeconds)}
+                    </p>
+                  )}
                 </div>
 
+                <button
+                  onClick={() => isPaused ? resumeRecording() : pauseRecording()}
+                  className="mt-6 w-full h-16 bg-slate-900 hover:bg-slate-800 border border-slate-800 text-white rounded-[24px] font-black text-lg flex items-center justify-center gap-3 transition-all active:scale-95"
+                >
+                  {isPaused ? <Play className="w-6 h-6 fill-current" /> : <Pause className="w-6 h-6" />}
+                  {isPaused ? 'Retomar' : 'Pausar'}
+                </button>
+
                 <button 
                   onClick={stopRecording}
-                  className="mt-6 w-full h-20 bg-gradient-to-r from-red-600 to-rose-700 hover:from-red-500 hover:to-rose-600 text-white rounded-[28px] font-black text-xl flex items-center justify-center gap-4 transition-all shadow-2xl shadow-red-900/50 active:scale-95 group"
+                  className="w-full h-20 bg-gradient-to-r from-red-600 to-rose-700 hover:from-red-500 hover:to-rose-600 text-white rounded-[28px] font-black text-xl flex items-center justify-center gap-4 transition-all shadow-2xl shadow-red-900/50 active:scale-95 group"
                 >
                   <div className="w-10 h-10 bg-white/10 rounded-xl flex items-center justify-center group-hover:bg-white/20 transition-colors">
                     <StopCircle className="w-7 h-7" />
@@ -270,6 +1390,16 @@ const App: React.FC = () => {
             </>
           )}
         </div>
+
+        {interruption && isRecording && (
+          <InterruptionDialog
+            reason={interruption}
+            onResume={resumeAfterInterruption}
+            onDismiss={() => setInterruption(null)}
+            onFinish={stopRecording}
+            onFinishAndContinue={finishAndContinue}
+          />
+        )}
       </div>
     );
   }
@@ -278,7 +1408,7 @@ const App: React.FC = () => {
     return (
       <div className="h-full bg-slate-950 flex flex-col safe-top safe-bottom">
         <header className="px-4 py-6 flex items-center gap-4 border-b border-slate-900/50 backdrop-blur-md sticky top-0 z-50">
-          <button onClick={() => setView(AppView.LIST)} className="p-3 bg-slate-900 rounded-xl text-slate-400 hover:text-white transition-colors">
+          <button onClick={leaveEditor} className="p-3 bg-slate-900 rounded-xl text-slate-400 hover:text-white transition-colors">
             <ArrowLeft className="w-5 h-5" />
           </button>
           <input 
@@ -286,40 +1416,71 @@ const App: React.FC = () => {
             onChange={e => setActiveNote({...activeNote, title: e.target.value})}
             className="flex-1 bg-transparent border-none text-xl font-black outline-none text-white focus:ring-2 focus:ring-cyan-500/10 rounded-lg px-2"
           />
-          <button onClick={() => deleteNote(activeNote.id)} className="p-3 text-slate-600 hover:text-red-500 transition-colors">
+          <button onClick={() => deleteNote(activeNote)} className="p-3 text-slate-600 hover:text-red-500 transition-colors">
             <Trash2 className="w-5 h-5" />
           </button>
         </header>
 
         <div className="flex-1 overflow-y-auto px-4 py-6 space-y-6 pb-40 scrollbar-hide">
           {activeNote.audioUrl && (
-            <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 p-5 rounded-3xl flex items-center gap-5 shadow-inner">
-              <button 
-                onClick={togglePlayback}
-                className="w-14 h-14 bg-blue-600 hover:bg-blue-500 rounded-2xl flex items-center justify-center text-white shadow-lg shadow-blue-500/20 transition-all active:scale-90"
-              >
-                {isPlaying ? <Pause className="w-7 h-7" /> : <Play className="w-7 h-7 fill-current ml-1" />}
-              </button>
-              <div className="flex-1">
-                <div className="text-[10px] text-slate-500 uppercase font-black tracking-widest mb-1">Preview de Voz</div>
-                <div className="text-base font-bold text-slate-100">{activeNote.durationFormatted}</div>
+            <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 p-5 rounded-3xl space-y-5 shadow-inner">
+              <div className="flex items-center gap-5">
+                <button 
+                  onClick={togglePlayback}
+                  className="w-14 h-14 bg-blue-600 hover:bg-blue-500 rounded-2xl flex items-center justify-center text-white shadow-lg shadow-blue-500/20 transition-all active:scale-90"
+                >
+                  {isPlaying ? <Pause className="w-7 h-7" /> : <Play className="w-7 h-7 fill-current ml-1" />}
+                </button>
+                <div className="flex-1">
+                  <div className="text-[10px] text-slate-500 uppercase font-black tracking-widest mb-1">
+                    {playEnhanced ? 'Voz Realçada' : 'Preview de Voz'}
+                  </div>
+                  <div className="text-base font-bold text-slate-100">{formatTime(activeNote.durationSeconds)}</div>
+                </div>
+                <button
+                  onClick={toggleEnhancedPlayback}
+                  disabled={isEnhancing}
+                  className={`p-4 rounded-2xl transition-all ${
+                    playEnhanced ? 'bg-cyan-500/10 text-cyan-400' : 'bg-slate-800/50 text-slate-400 hover:text-cyan-400 hover:bg-slate-800'
+                  }`}
+                  title={playEnhanced ? "Ouvindo versão realçada · voltar ao original" : "Ouvir versão com voz realçada"}
+                >
+                  {isEnhancing ? <Loader2 className="w-6 h-6 animate-spin" /> : <WandSparkles className="w-6 h-6" />}
+                </button>
+                <button 
+                  onClick={downloadAudio}
+                  className="p-4 bg-slate-800/50 rounded-2xl text-slate-400 hover:text-cyan-400 hover:bg-slate-800 transition-all"
+                  title="Salvar áudio localmente"
+                >
+                  <Download className="w-6 h-6" />
+                </button>
+                <audio 
+                  ref={audioRef} 
+                  src={playEnhanced && enhancedAudio?.noteId === activeNote.id ? enhancedAudio.urls[currentPart] : playbackParts[currentPart]?.url} 
+                  onLoadedMetadata={restorePlaybackPosition}
+                  onEnded={handlePartEnded}
+                  onTimeUpdate={e => setPlaybackTime((playbackParts[currentPart]?.offsetSeconds ?? 0) + e.currentTarget.currentTime)}
+                  hidden 
+                />
               </div>
-              <button 
-                onClick={downloadAudio}
-                className="p-4 bg-slate-800/50 rounded-2xl text-slate-400 hover:text-cyan-400 hover:bg-slate-800 transition-all"
-                title="Salvar áudio localmente"
-              >
-                <Download className="w-6 h-6" />
-              </button>
-              <audio 
-                ref={audioRef} 
-                src={activeNote.audioUrl} 
-                onEnded={() => setIsPlaying(false)}
-                hidden 
+              <MarkerTimeline
+                currentTime={playbackTime}
+                duration={activeNote.durationSeconds}
+                markers={activeNote.markers ?? []}
+                onSeek={seekTo}
               />
+              <InputIssues issues={activeNote.inputIssues ?? []} onSeek={seekTo} />
             </div>
           )}
 
+          <button
+            onClick={continueRecording}
+            className="w-full h-14 bg-slate-900 hover:bg-slate-800 border border-slate-800 text-slate-200 rounded-2xl font-bold text-sm flex items-center justify-center gap-3 transition-all active:scale-95"
+          >
+            <Mic className="w-5 h-5 text-red-500" />
+            Continuar gravação
+          </button>
+
           <div className="bg-slate-900/40 backdrop-blur-sm p-6 rounded-[32px] border border-slate-800/50 space-y-5">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -357,6 +1518,8 @@ const App: React.FC = () => {
               className="w-full h-80 bg-transparent text-slate-500 text-xs leading-relaxed outline-none resize-none italic"
             />
           </div>
+
+          <RevisionHistory note={activeNote} onRevert={revertToRevision} />
         </div>
 
         <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-slate-950 via-slate-950/95 to-transparent flex gap-3 safe-bottom z-50">
@@ -372,13 +1535,72 @@ const App: React.FC = () => {
   }
 
   return (
-    <div className="h-full bg-slate-950 flex flex-col overflow-hidden safe-top safe-bottom">
+    <div
+      className="relative h-full bg-slate-950 flex flex-col overflow-hidden safe-top safe-bottom"
+      onDragOver={e => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFile(true);
+      }}
+      onDragLeave={e => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+      }}
+      onDrop={handleFileDrop}
+    >
+      {isDraggingFile && (
+        <div className="absolute inset-4 z-[60] rounded-[32px] border-2 border-dashed border-cyan-500/50 bg-slate-950/90 backdrop-blur-sm flex flex-col items-center justify-center gap-4 pointer-events-none">
+          <FileAudio className="w-14 h-14 text-cyan-400" />
+          <p className="font-bold text-slate-100 text-lg">Solte o áudio para transcrever</p>
+          <p className="text-sm text-slate-500">mp3, m4a, wav, ogg ou opus</p>
+        </div>
+      )}
+
       <header className="p-6 space-y-6">
         <div className="flex justify-between items-center">
           <Logo />
           <div className="flex items-center gap-3">
-             <button className="p-3 bg-slate-900/50 rounded-2xl text-slate-400">
-               <History className="w-5 h-5" />
+             <button onClick={() => audioFileInputRef.current?.click()} className="p-3 bg-slate-900/50 rounded-2xl text-slate-400 hover:text-cyan-400 transition-colors" title="Importar arquivo de áudio">
+               <FileAudio className="w-5 h-5" />
+             </button>
+             <input
+               ref={audioFileInputRef}
+               type="file"
+               accept={AUDIO_IMPORT_ACCEPT}
+               multiple
+               hidden
+               onChange={e => {
+                 const files = Array.from(e.target.files ?? []);
+                 e.target.value = '';
+                 if (files.length > 0) importAudioFiles(files);
+               }}
+             />
+             <button onClick={exportLibrary} className="p-3 bg-slate-900/50 rounded-2xl text-slate-400 hover:text-cyan-400 transition-colors" title="Exportar backup completo">
+               <Download className="w-5 h-5" />
+             </button>
+             <button onClick={() => backupInputRef.current?.click()} className="p-3 bg-slate-900/50 rounded-2xl text-slate-400 hover:text-cyan-400 transition-colors" title="Restaurar backup">
+               <Upload className="w-5 h-5" />
+             </button>
+             <input
+               ref={backupInputRef}
+               type="file"
+               accept="application/json,.json"
+               hidden
+               onChange={e => {
+                 const file = e.target.files?.[0];
+                 e.target.value = '';
+                 if (file) importLibrary(file);
+               }}
+             />
+             <button onClick={() => setView(AppView.TRASH)} className="relative p-3 bg-slate-900/50 rounded-2xl text-slate-400 hover:text-cyan-400 transition-colors" title="Lixeira">
+               <Trash2 className="w-5 h-5" />
+               {trashedNotes.length > 0 && (
+                 <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-slate-700 text-[10px] font-black text-white flex items-center justify-center">
+                   {trashedNotes.length}
+                 </span>
+               )}
+             </button>
+             <button onClick={() => setView(AppView.SETTINGS)} className="p-3 bg-slate-900/50 rounded-2xl text-slate-400 hover:text-cyan-400 transition-colors" title="Configurações">
+               <Settings className="w-5 h-5" />
              </button>
              <div className="w-11 h-11 rounded-2xl bg-slate-800 flex items-center justify-center text-slate-400 font-bold border border-slate-700">
                AD
@@ -386,8 +1608,15 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {storageError && (
+          <div className="flex items-start gap-3 p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl">
+            <AlertTriangle className="w-5 h-5 text-amber-400 shrink-0" />
+            <p className="text-sm text-amber-200">{storageError}</p>
+          </div>
+        )}
+
         <div className="space-y-1">
-          <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">{notes.length} gravações salvas</p>
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">{activeNotes.length} gravações salvas</p>
           <div className="relative group">
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-600 group-focus-within:text-cyan-500 transition-colors" />
             <input 
@@ -411,24 +1640,53 @@ const App: React.FC = () => {
             </div>
             <div className="space-y-2 max-w-[240px]">
               <p className="font-bold text-slate-300 text-lg">Sem gravações</p>
-              <p className="text-sm leading-relaxed text-slate-500 font-medium">Toque no botão abaixo para começar a capturar suas reuniões com IA.</p>
+              <p className="text-sm leading-relaxed text-slate-500 font-medium">Toque no botão abaixo para começar a capturar suas reuniões com IA, ou arraste um arquivo de áudio para cá.</p>
             </div>
           </div>
         ) : (
           filteredNotes.map(note => (
-            <NoteCard key={note.id} note={note} onClick={() => { setActiveNote(note); setView(AppView.EDIT); }} />
+            <NoteCard key={note.id} note={note} onClick={() => openNote(note)} />
           ))
         )}
       </div>
 
       <div className="fixed bottom-10 right-8 z-50">
         <button 
-          onClick={startRecording}
+          onClick={() => startRecording()}
           className="h-18 w-18 bg-gradient-to-br from-cyan-400 to-blue-600 rounded-[24px] shadow-2xl shadow-blue-500/40 flex items-center justify-center text-white active:scale-90 transition-all hover:scale-105 active:rotate-12"
         >
           <Plus className="w-9 h-9" />
         </button>
       </div>
+
+      {conflictDialog}
+
+      {!conflictDialog && interruptedSessions.length > 0 && (
+        <RecordingRecoveryDialog
+          sessions={interruptedSessions}
+          onRecover={recoverSession}
+          onDiscard={discardSession}
+          onClose={() => setInterruptedSessions([])}
+        />
+      )}
+
+      {!conflictDialog && !interruptedSessions.length && pendingDrafts.length > 0 && (
+        <DraftRecoveryDialog
+          drafts={pendingDrafts}
+          onRestore={restoreDraft}
+          onDiscard={dismissDraft}
+          onClose={() => setPendingDrafts([])}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          total={pendingImport.contents.notes.length}
+          collisions={pendingImport.collisions}
+          onChoose={strategy => applyImport(pendingImport.contents, strategy)}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { Mic } from 'lucide-react';
+import { SettingsSection } from './SettingsView';
+import { listInputDevices, requestDeviceLabels } from '../services/audioInput';
+
+interface AudioInputSettingsProps {
+  deviceId: string;
+  onChange: (deviceId: string) => void;
+}
+
+export const AudioInputSettings: React.FC<AudioInputSettingsProps> = ({ deviceId, onChange }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = () => {
+    listInputDevices().then(setDevices).catch(err => console.error("Erro ao listar microfones", err));
+  };
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const allowLabels = async () => {
+    try {
+      await requestDeviceLabels();
+      refresh();
+    } catch {
+      alert("Permissão de microfone necessária para listar os dispositivos.");
+    }
+  };
+
+  const hasLabels = devices.some(d => d.label);
+
+  return (
+    <SettingsSection icon={Mic} title="Microfone" description="Dispositivo usado nas gravações.">
+      <select
+        value={deviceId}
+        onChange={e => onChange(e.target.value)}
+        className="w-full bg-slate-950/60 border border-slate-800 rounded-2xl py-3 px-4 text-sm outline-none text-white"
+      >
+        <option value="">Padrão do sistema</option>
+        {devices.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `Microfone ${i + 1}`}
+          </option>
+        ))}
+      </select>
+      {!hasLabels && devices.length > 0 && (
+        <button onClick={allowLabels} className="text-xs font-bold text-cyan-400 hover:text-cyan-300">
+          Permitir acesso para mostrar os nomes dos microfones
+        </button>
+      )}
+    </SettingsSection>
+  );
+};
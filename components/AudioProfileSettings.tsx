@@ -0,0 +1,44 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { SettingsSection } from './SettingsView';
+import { AUDIO_PROFILES } from '../services/audioProfiles';
+import { AudioProfileId } from '../types';
+
+interface AudioProfileSettingsProps {
+  profileId: AudioProfileId;
+  onChange: (profileId: AudioProfileId) => void;
+}
+
+const describe = (id: AudioProfileId) => {
+  const p = AUDIO_PROFILES[id];
+  const flags = [
+    p.echoCancellation && 'cancelamento de eco',
+    p.noiseSuppression && 'redução de ruído',
+    p.autoGainControl && 'ganho automático',
+  ].filter(Boolean).join(', ');
+  return `${p.bitrate / 1000} kbps · ${p.channelCount === 1 ? 'mono' : 'estéreo'} · ${p.sampleRate / 1000} kHz${flags ? ` · ${flags}` : ''}`;
+};
+
+export const AudioProfileSettings: React.FC<AudioProfileSettingsProps> = ({ profileId, onChange }) => {
+  return (
+    <SettingsSection icon={SlidersHorizontal} title="Qualidade de áudio" description="Salvo separadamente para o microfone selecionado.">
+      <div className="space-y-2">
+        {Object.values(AUDIO_PROFILES).map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => onChange(profile.id)}
+            className={`w-full text-left p-4 rounded-2xl border transition-colors ${
+              profileId === profile.id
+                ? 'bg-blue-600/10 border-blue-500/40'
+                : 'bg-slate-800/40 border-transparent hover:bg-slate-800'
+            }`}
+          >
+            <div className="text-slate-100 font-bold text-sm">{profile.label}</div>
+            <div className="text-slate-400 text-xs">{profile.description}</div>
+            <div className="text-slate-500 text-[10px] mt-1">{describe(profile.id)}</div>
+          </button>
+        ))}
+      </div>
+    </SettingsSection>
+  );
+};
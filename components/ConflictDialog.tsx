@@ -0,0 +1,75 @@
+import React from 'react';
+import { GitMerge, Smartphone, Cloud, Copy } from 'lucide-react';
+import { SyncConflict, ConflictChoice } from '../services/sync';
+import { REVISION_FIELDS } from '../services/revisions';
+import { RevisionField } from '../types';
+import { DiffView } from './DiffView';
+
+interface ConflictDialogProps {
+  conflict: SyncConflict;
+  remaining: number;
+  onResolve: (choice: ConflictChoice) => void;
+}
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Título',
+  summary: 'Resumo',
+  transcription: 'Transcrição',
+};
+
+const CHOICES: { choice: ConflictChoice; label: string; icon: typeof Cloud }[] = [
+  { choice: 'local', label: 'Manter deste aparelho', icon: Smartphone },
+  { choice: 'remote', label: 'Usar a do servidor', icon: Cloud },
+  { choice: 'both', label: 'Manter as duas', icon: Copy },
+];
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({ conflict, remaining, onResolve }) => {
+  const { local, remote } = conflict;
+  const changed = REVISION_FIELDS.filter(field => local[field] !== remote[field]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col bg-slate-900 border border-slate-800 rounded-[28px] p-6 gap-5 shadow-2xl">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-amber-500/10 flex items-center justify-center shrink-0">
+            <GitMerge className="w-5 h-5 text-amber-400" />
+          </div>
+          <div>
+            <h3 className="text-white font-bold">Conflito de sincronização</h3>
+            <p className="text-slate-400 text-sm">
+              "{local.title}" foi alterada aqui e em outro aparelho{remaining > 1 ? ` (${remaining} conflitos)` : ''}.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 scrollbar-hide">
+          <p className="text-[10px] text-slate-500 uppercase font-black tracking-widest">
+            <span className="text-red-300">Servidor</span> → <span className="text-green-300">Este aparelho</span>
+          </p>
+          {changed.length === 0 && (
+            <p className="text-slate-500 text-xs">O conteúdo é igual; apenas os metadados divergem.</p>
+          )}
+          {changed.map(field => (
+            <div key={field} className="space-y-1">
+              <div className="text-[10px] text-slate-500 uppercase font-black tracking-widest">{FIELD_LABELS[field]}</div>
+              <DiffView before={remote[field]} after={local[field]} className="max-h-48" />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {CHOICES.map(({ choice, label, icon: Icon }) => (
+            <button
+              key={choice}
+              onClick={() => onResolve(choice)}
+              className="flex flex-col items-center gap-2 p-3 bg-slate-800/50 hover:bg-slate-800 rounded-2xl text-slate-200 text-xs font-bold transition-colors"
+            >
+              <Icon className="w-5 h-5 text-cyan-400" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { diffWords } from '../utils/diff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+export const DiffView: React.FC<DiffViewProps> = ({ before, after, className = 'max-h-60' }) => (
+  <p className={`text-xs leading-relaxed whitespace-pre-wrap text-slate-400 bg-slate-950/60 rounded-xl p-3 overflow-y-auto scrollbar-hide ${className}`}>
+    {diffWords(before, after).map((segment, i) => (
+      <span
+        key={i}
+        className={
+          segment.type === 'added' ? 'bg-green-500/20 text-green-300' :
+          segment.type === 'removed' ? 'bg-red-500/20 text-red-300 line-through' : ''
+        }
+      >
+        {segment.text}
+      </span>
+    ))}
+  </p>
+);
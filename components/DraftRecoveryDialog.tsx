@@ -0,0 +1,51 @@
+import React from 'react';
+import { FileClock, RotateCcw, Trash2 } from 'lucide-react';
+import { Draft } from '../services/drafts';
+
+interface DraftRecoveryDialogProps {
+  drafts: Draft[];
+  onRestore: (draft: Draft) => void;
+  onDiscard: (draft: Draft) => void;
+  onClose: () => void;
+}
+
+export const DraftRecoveryDialog: React.FC<DraftRecoveryDialogProps> = ({ drafts, onRestore, onDiscard, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="w-full max-w-md max-h-[80vh] flex flex-col bg-slate-900 border border-slate-800 rounded-[28px] p-6 gap-5 shadow-2xl">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-cyan-500/10 flex items-center justify-center shrink-0">
+            <FileClock className="w-5 h-5 text-cyan-400" />
+          </div>
+          <div>
+            <h3 className="text-white font-bold">Rascunhos não salvos</h3>
+            <p className="text-slate-400 text-sm">Encontramos edições que não foram salvas na última sessão.</p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 scrollbar-hide">
+          {drafts.map(draft => (
+            <div key={draft.note.id} className="flex items-center gap-3 p-4 bg-slate-800/50 rounded-2xl">
+              <div className="flex-1 overflow-hidden">
+                <div className="text-slate-100 font-bold text-sm line-clamp-1">{draft.note.title}</div>
+                <div className="text-slate-500 text-xs">
+                  {draft.isNew ? 'Nova nota · ' : ''}{new Date(draft.savedAt).toLocaleString('pt-BR')}
+                </div>
+              </div>
+              <button onClick={() => onRestore(draft)} className="p-2.5 bg-slate-800 rounded-xl text-slate-400 hover:text-cyan-400 transition-colors" title="Restaurar">
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button onClick={() => onDiscard(draft)} className="p-2.5 bg-slate-800 rounded-xl text-slate-400 hover:text-red-500 transition-colors" title="Descartar">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button onClick={onClose} className="w-full py-3 text-slate-500 hover:text-white text-sm font-bold transition-colors">
+          Decidir depois
+        </button>
+      </div>
+    </div>
+  );
+};
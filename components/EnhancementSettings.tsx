@@ -0,0 +1,33 @@
+import React from 'react';
+import { WandSparkles } from 'lucide-react';
+import { SettingsSection } from './SettingsView';
+
+interface EnhancementSettingsProps {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+export const EnhancementSettings: React.FC<EnhancementSettingsProps> = ({ enabled, onChange }) => {
+  return (
+    <SettingsSection
+      icon={WandSparkles}
+      title="Realce de voz"
+      description="Filtra ruídos graves, reduz o chiado entre falas e equaliza o volume de quem fala baixo ou longe do aparelho."
+    >
+      <div className="space-y-2">
+        <label className="flex items-center justify-between gap-3 px-1 text-sm text-slate-300 font-medium">
+          Realçar o áudio enviado para transcrição
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={e => onChange(e.target.checked)}
+            className="w-5 h-5 accent-blue-600"
+          />
+        </label>
+        <p className="text-xs text-slate-500 px-1">
+          O áudio original continua salvo na nota. No player é possível comparar as duas versões.
+        </p>
+      </div>
+    </SettingsSection>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { AlertTriangle, SkipForward, RefreshCw, CopyPlus } from 'lucide-react';
+import { ImportStrategy } from '../services/backup';
+
+interface ImportDialogProps {
+  total: number;
+  collisions: number;
+  onChoose: (strategy: ImportStrategy) => void;
+  onCancel: () => void;
+}
+
+const OPTIONS: { strategy: ImportStrategy; label: string; description: string; icon: typeof SkipForward }[] = [
+  { strategy: 'skip', label: 'Ignorar', description: 'Mantém as notas atuais', icon: SkipForward },
+  { strategy: 'overwrite', label: 'Substituir', description: 'Usa a versão do backup', icon: RefreshCw },
+  { strategy: 'duplicate', label: 'Duplicar', description: 'Mantém as duas versões', icon: CopyPlus },
+];
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ total, collisions, onChoose, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-[28px] p-6 space-y-5 shadow-2xl">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-amber-500/10 flex items-center justify-center shrink-0">
+            <AlertTriangle className="w-5 h-5 text-amber-400" />
+          </div>
+          <div>
+            <h3 className="text-white font-bold">Notas já existentes</h3>
+            <p className="text-slate-400 text-sm">
+              {collisions} de {total} notas do backup já estão na sua biblioteca.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {OPTIONS.map(({ strategy, label, description, icon: Icon }) => (
+            <button
+              key={strategy}
+              onClick={() => onChoose(strategy)}
+              className="w-full flex items-center gap-4 p-4 bg-slate-800/50 hover:bg-slate-800 rounded-2xl text-left transition-colors"
+            >
+              <Icon className="w-5 h-5 text-cyan-400 shrink-0" />
+              <div>
+                <div className="text-slate-100 font-bold text-sm">{label}</div>
+                <div className="text-slate-500 text-xs">{description}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <button onClick={onCancel} className="w-full py-3 text-slate-500 hover:text-white text-sm font-bold transition-colors">
+          Cancelar importação
+        </button>
+      </div>
+    </div>
+  );
+};
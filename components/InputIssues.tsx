@@ -0,0 +1,38 @@
+import React from 'react';
+import { MicOff, AlertTriangle } from 'lucide-react';
+import { InputIssue } from '../types';
+import { formatTime } from '../utils/format';
+
+interface InputIssuesProps {
+  issues: InputIssue[];
+  onSeek: (seconds: number) => void;
+}
+
+const LABELS: Record<InputIssue['type'], string> = {
+  silent: 'Sem sinal do microfone',
+  clipping: 'Áudio distorcido',
+};
+
+// Problemas de captação registrados na gravação, que ajudam a entender falhas na transcrição
+export const InputIssues: React.FC<InputIssuesProps> = ({ issues, onSeek }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <div className="text-[10px] text-amber-400/80 uppercase font-black tracking-widest px-1">Problemas de captação</div>
+      {issues.map(issue => (
+        <button
+          key={`${issue.type}-${issue.offsetSeconds}`}
+          onClick={() => onSeek(issue.offsetSeconds)}
+          className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left bg-amber-500/5 hover:bg-amber-500/10 transition-colors"
+        >
+          {issue.type === 'silent'
+            ? <MicOff className="w-4 h-4 text-amber-400 shrink-0" />
+            : <AlertTriangle className="w-4 h-4 text-red-400 shrink-0" />}
+          <span className="text-xs font-mono font-bold text-cyan-400 tabular-nums">{formatTime(issue.offsetSeconds)}</span>
+          <span className="text-sm text-slate-300 truncate">{LABELS[issue.type]}</span>
+          <span className="ml-auto text-xs text-slate-500 shrink-0">{formatTime(issue.durationSeconds)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
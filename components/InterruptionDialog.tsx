@@ -0,0 +1,78 @@
+import React from 'react';
+import { AlertTriangle, Play, Square, Mic } from 'lucide-react';
+import { InterruptionReason } from '../services/captureWatchdog';
+
+interface InterruptionDialogProps {
+  reason: InterruptionReason;
+  onResume: () => void;
+  onDismiss: () => void;
+  onFinish: () => void;
+  onFinishAndContinue: () => void;
+}
+
+const MESSAGES: Record<InterruptionReason, { title: string; text: string }> = {
+  ended: {
+    title: 'Microfone desconectado',
+    text: 'O microfone foi desconectado ou bloqueado pelo sistema. O que foi gravado até aqui está salvo.',
+  },
+  'system-ended': {
+    title: 'Compartilhamento encerrado',
+    text: 'O compartilhamento da aba terminou. A gravação continua apenas com o microfone.',
+  },
+  muted: {
+    title: 'Microfone silenciado',
+    text: 'O sistema silenciou o microfone, por exemplo durante uma chamada. A gravação foi pausada e volta sozinha quando o microfone for liberado.',
+  },
+  suspended: {
+    title: 'Áudio suspenso',
+    text: 'O navegador suspendeu o áudio enquanto a página estava em segundo plano. A gravação foi pausada.',
+  },
+  error: {
+    title: 'Gravação interrompida',
+    text: 'O gravador parou inesperadamente. O que foi gravado até aqui está salvo.',
+  },
+};
+
+const primaryClass = "w-full py-4 bg-blue-600 hover:bg-blue-500 rounded-2xl text-white font-bold flex items-center justify-center gap-2 transition-colors";
+const secondaryClass = "w-full py-4 bg-slate-800 hover:bg-slate-700 rounded-2xl text-slate-200 font-bold flex items-center justify-center gap-2 transition-colors";
+
+export const InterruptionDialog: React.FC<InterruptionDialogProps> = ({ reason, onResume, onDismiss, onFinish, onFinishAndContinue }) => {
+  const { title, text } = MESSAGES[reason];
+  // Sem a trilha do microfone não dá para retomar o mesmo gravador: o trecho é processado e a gravação continua na mesma nota
+  const isCaptureLost = reason === 'ended' || reason === 'error';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-[28px] p-6 space-y-5 shadow-2xl text-left">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-amber-500/10 flex items-center justify-center shrink-0">
+            <AlertTriangle className="w-5 h-5 text-amber-400" />
+          </div>
+          <div>
+            <h3 className="text-white font-bold">{title}</h3>
+            <p className="text-slate-400 text-sm">{text}</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {isCaptureLost ? (
+            <button onClick={onFinishAndContinue} className={primaryClass}>
+              <Mic className="w-4 h-4" /> Transcrever e continuar gravando
+            </button>
+          ) : reason === 'system-ended' ? (
+            <button onClick={onDismiss} className={primaryClass}>
+              <Mic className="w-4 h-4" /> Continuar só com o microfone
+            </button>
+          ) : (
+            <button onClick={onResume} className={primaryClass}>
+              <Play className="w-4 h-4" /> Retomar gravação
+            </button>
+          )}
+          <button onClick={onFinish} className={secondaryClass}>
+            <Square className="w-4 h-4" /> {isCaptureLost ? 'Apenas transcrever' : 'Finalizar e transcrever'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MicOff, AlertTriangle } from 'lucide-react';
+import { watchInputLevel, InputWarning } from '../services/inputMonitor';
+import { toDecibels } from '../utils/audioLevel';
+
+interface LevelMeterProps {
+  analyser: AnalyserNode;
+  active: boolean; // desligado durante pausas, quando o silêncio é esperado
+  onWarningChange: (warning: InputWarning | null) => void;
+}
+
+// Faixa exibida na barra: -60 dB (vazia) a 0 dB (cheia)
+const METER_FLOOR_DB = -60;
+
+const toMeterPercent = (value: number) =>
+  Math.max(0, Math.min(100, ((toDecibels(value) - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+const WARNINGS: Record<InputWarning, { icon: typeof MicOff; text: string }> = {
+  silent: { icon: MicOff, text: 'Nenhum som há alguns segundos. O microfone pode estar mudo.' },
+  clipping: { icon: AlertTriangle, text: 'Volume alto demais: o áudio está distorcendo. Afaste o aparelho.' },
+};
+
+export const LevelMeter: React.FC<LevelMeterProps> = ({ analyser, active, onWarningChange }) => {
+  const [level, setLevel] = useState({ rms: 0, peak: 0 });
+  const [warning, setWarning] = useState<InputWarning | null>(null);
+  const onWarningChangeRef = useRef(onWarningChange);
+  onWarningChangeRef.current = onWarningChange;
+
+  useEffect(() => {
+    if (!active) {
+      setLevel({ rms: 0, peak: 0 });
+      return;
+    }
+    let current: InputWarning | null = null;
+    const stop = watchInputLevel(analyser, update => {
+      setLevel({ rms: update.rms, peak: update.peak });
+      if (update.warning !== current) {
+        current = update.warning;
+        setWarning(current);
+        onWarningChangeRef.current(current);
+      }
+    });
+    return () => {
+      stop();
+      // Encerra o aviso em aberto ao pausar ou parar
+      if (current) onWarningChangeRef.current(null);
+      setWarning(null);
+    };
+  }, [analyser, active]);
+
+  const Warning = warning ? WARNINGS[warning] : null;
+
+  return (
+    <div className="w-full max-w-[300px] space-y-2">
+      <div className="relative h-2 bg-slate-900 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-[width] duration-100 ${warning === 'clipping' ? 'bg-red-500' : 'bg-gradient-to-r from-emerald-400 via-cyan-400 to-amber-400'}`}
+          style={{ width: `${toMeterPercent(level.rms)}%` }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-white/70" style={{ left: `${toMeterPercent(level.peak)}%` }} />
+      </div>
+      {Warning && (
+        <div className={`flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-left ${
+          warning === 'clipping' ? 'bg-red-500/10 text-red-400' : 'bg-amber-500/10 text-amber-400'
+        }`}>
+          <Warning.icon className="w-4 h-4 shrink-0" />
+          {Warning.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Bookmark, StickyNote } from 'lucide-react';
+import { RecordingMarker } from '../types';
+import { formatTime } from '../utils/format';
+
+interface MarkerTimelineProps {
+  currentTime: number;
+  duration: number;
+  markers: RecordingMarker[];
+  onSeek: (seconds: number) => void;
+}
+
+// Barra de progresso do player com os marcadores da gravação; clicar em qualquer ponto posiciona o áudio
+export const MarkerTimeline: React.FC<MarkerTimelineProps> = ({ currentTime, duration, markers, onSeek }) => {
+  const percent = (seconds: number) => duration > 0 ? Math.min(100, (seconds / duration) * 100) : 0;
+
+  const seekFromClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div onClick={seekFromClick} className="relative h-2 bg-slate-800 rounded-full cursor-pointer">
+        <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-cyan-400 to-blue-600 rounded-full" style={{ width: `${percent(currentTime)}%` }} />
+        {markers.map(marker => (
+          <button
+            key={marker.id}
+            onClick={e => { e.stopPropagation(); onSeek(marker.offsetSeconds); }}
+            title={`${formatTime(marker.offsetSeconds)} · ${marker.text || 'Marcador'}`}
+            className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3.5 h-3.5 rounded-full bg-amber-400 border-2 border-slate-950 hover:scale-125 transition-transform"
+            style={{ left: `${percent(marker.offsetSeconds)}%` }}
+          />
+        ))}
+      </div>
+
+      {markers.length > 0 && (
+        <div className="space-y-1">
+          {markers.map(marker => (
+            <button
+              key={marker.id}
+              onClick={() => onSeek(marker.offsetSeconds)}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left hover:bg-slate-800/50 transition-colors"
+            >
+              {marker.text
+                ? <StickyNote className="w-4 h-4 text-amber-400 shrink-0" />
+                : <Bookmark className="w-4 h-4 text-amber-400 shrink-0" />}
+              <span className="text-xs font-mono font-bold text-cyan-400 tabular-nums">{formatTime(marker.offsetSeconds)}</span>
+              <span className="text-sm text-slate-300 truncate">{marker.text || 'Marcador'}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Clock, ChevronRight, FileAudio, Users, Lightbulb, CheckSquare } from 'lucide-react';
 import { Note } from '../types';
+import { formatDate, formatTime } from '../utils/format';
 
 interface NoteCardProps {
   note: Note;
@@ -45,11 +46,11 @@ export const NoteCard: React.FC<NoteCardProps> = ({ note, onClick }) => {
       <div className="flex items-center gap-3 text-xs text-slate-400 mb-3 font-medium pl-1">
         <span className="flex items-center gap-1.5">
           <Clock className="w-3.5 h-3.5 text-slate-500" />
-          {note.date}
+          {formatDate(note.createdAt)}
         </span>
         <span className="w-1 h-1 rounded-full bg-slate-700"></span>
         <span className="bg-slate-800 text-slate-300 px-2 py-0.5 rounded border border-slate-700">
-          {note.durationFormatted}
+          {formatTime(note.durationSeconds)}
         </span>
       </div>
 
@@ -0,0 +1,50 @@
+import React from 'react';
+import { LifeBuoy, Play, Trash2 } from 'lucide-react';
+import { RecordingSession } from '../services/recordingStore';
+import { formatTime } from '../utils/format';
+
+interface RecordingRecoveryDialogProps {
+  sessions: RecordingSession[];
+  onRecover: (session: RecordingSession) => void;
+  onDiscard: (session: RecordingSession) => void;
+  onClose: () => void;
+}
+
+export const RecordingRecoveryDialog: React.FC<RecordingRecoveryDialogProps> = ({ sessions, onRecover, onDiscard, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="w-full max-w-md max-h-[80vh] flex flex-col bg-slate-900 border border-slate-800 rounded-[28px] p-6 gap-5 shadow-2xl">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-red-500/10 flex items-center justify-center shrink-0">
+            <LifeBuoy className="w-5 h-5 text-red-400" />
+          </div>
+          <div>
+            <h3 className="text-white font-bold">Gravação interrompida</h3>
+            <p className="text-slate-400 text-sm">O áudio gravado até a interrupção foi preservado e pode ser processado agora.</p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 scrollbar-hide">
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-center gap-3 p-4 bg-slate-800/50 rounded-2xl">
+              <div className="flex-1">
+                <div className="text-slate-100 font-bold text-sm">{new Date(session.startedAt).toLocaleString('pt-BR')}</div>
+                <div className="text-slate-500 text-xs">Cerca de {formatTime(session.durationSeconds)} gravados</div>
+              </div>
+              <button onClick={() => onRecover(session)} className="p-2.5 bg-slate-800 rounded-xl text-slate-400 hover:text-cyan-400 transition-colors" title="Recuperar e processar">
+                <Play className="w-4 h-4" />
+              </button>
+              <button onClick={() => onDiscard(session)} className="p-2.5 bg-slate-800 rounded-xl text-slate-400 hover:text-red-500 transition-colors" title="Descartar">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button onClick={onClose} className="w-full py-3 text-slate-500 hover:text-white text-sm font-bold transition-colors">
+          Decidir depois
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { MonitorSpeaker } from 'lucide-react';
+import { SettingsSection } from './SettingsView';
+import { RecordingSource, isSystemAudioSupported } from '../services/audioInput';
+
+interface RecordingSourceSettingsProps {
+  source: RecordingSource;
+  onChange: (source: RecordingSource) => void;
+}
+
+const OPTIONS: { source: RecordingSource; label: string; description: string }[] = [
+  { source: 'mic', label: 'Somente microfone', description: 'Reuniões presenciais e ditados.' },
+  { source: 'mic+system', label: 'Microfone + áudio da reunião', description: 'Chamadas de vídeo: grava também os participantes remotos a partir da aba compartilhada.' },
+];
+
+export const RecordingSourceSettings: React.FC<RecordingSourceSettingsProps> = ({ source, onChange }) => {
+  const supported = isSystemAudioSupported();
+
+  return (
+    <SettingsSection icon={MonitorSpeaker} title="Fonte de gravação">
+      <div className="space-y-2">
+        {OPTIONS.map(option => {
+          const disabled = option.source === 'mic+system' && !supported;
+          return (
+            <button
+              key={option.source}
+              disabled={disabled}
+              onClick={() => onChange(option.source)}
+              className={`w-full text-left p-4 rounded-2xl border transition-colors disabled:opacity-40 ${
+                source === option.source
+                  ? 'bg-blue-600/10 border-blue-500/40'
+                  : 'bg-slate-800/40 border-transparent hover:bg-slate-800'
+              }`}
+            >
+              <div className="text-slate-100 font-bold text-sm">{option.label}</div>
+              <div className="text-slate-400 text-xs">
+                {disabled ? 'Não disponível neste navegador.' : option.description}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </SettingsSection>
+  );
+};
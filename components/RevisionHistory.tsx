@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { History, ChevronDown, RotateCcw, Sparkles } from 'lucide-react';
+import { Note, NoteRevision, RevisionField } from '../types';
+import { getOriginalRevision } from '../services/revisions';
+import { DiffView } from './DiffView';
+
+interface RevisionHistoryProps {
+  note: Note;
+  onRevert: (revision: NoteRevision, fields?: RevisionField[]) => void;
+}
+
+const SOURCE_LABELS: Record<NoteRevision['source'], string> = {
+  ai: 'Original da IA',
+  continuation: 'Continuação da IA',
+  edit: 'Edição',
+  revert: 'Reversão',
+};
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Título',
+  summary: 'Resumo',
+  transcription: 'Transcrição',
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ note, onRevert }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const revisions = note.revisions ?? [];
+  const original = getOriginalRevision(note);
+
+  if (revisions.length === 0) return null;
+
+  return (
+    <div className="bg-slate-900/20 p-6 rounded-[32px] border border-slate-900 space-y-4">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-slate-800 flex items-center justify-center">
+            <History className="w-4 h-4 text-slate-500" />
+          </div>
+          <h3 className="text-slate-400 text-sm font-bold">Histórico de versões ({revisions.length})</h3>
+        </div>
+        <ChevronDown className={`w-4 h-4 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="space-y-3">
+          {original && (
+            <button
+              onClick={() => onRevert(original, ['summary', 'transcription'])}
+              className="w-full flex items-center justify-center gap-2 py-3 bg-cyan-500/10 hover:bg-cyan-500/20 rounded-2xl text-cyan-400 text-xs font-bold transition-colors"
+            >
+              <Sparkles className="w-4 h-4" /> Restaurar transcrição e resumo originais da IA
+            </button>
+          )}
+
+          {[...revisions].reverse().map(revision => {
+            const index = revisions.indexOf(revision);
+            const previous = index > 0 ? revisions[index - 1] : null;
+            const isSelected = selectedId === revision.id;
+            return (
+              <div key={revision.id} className="bg-slate-900/50 rounded-2xl border border-slate-800">
+                <button
+                  onClick={() => setSelectedId(isSelected ? null : revision.id)}
+                  className="w-full flex items-center justify-between p-4 text-left"
+                >
+                  <div>
+                    <div className="text-slate-200 text-sm font-bold">{SOURCE_LABELS[revision.source]}</div>
+                    <div className="text-slate-500 text-xs">
+                      {new Date(revision.createdAt).toLocaleString('pt-BR')}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 flex-wrap justify-end">
+                    {revision.changedFields.map(field => (
+                      <span key={field} className="text-[10px] bg-slate-800 text-slate-400 px-2 py-0.5 rounded-md">
+                        {FIELD_LABELS[field]}
+                      </span>
+                    ))}
+                  </div>
+                </button>
+
+                {isSelected && (
+                  <div className="px-4 pb-4 space-y-3">
+                    {revision.changedFields.map(field => (
+                      <div key={field} className="space-y-1">
+                        <div className="text-[10px] text-slate-500 uppercase font-black tracking-widest">{FIELD_LABELS[field]}</div>
+                        <DiffView before={previous ? previous[field] : ''} after={revision[field]} />
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => onRevert(revision)}
+                      className="w-full flex items-center justify-center gap-2 py-3 bg-slate-800/60 hover:bg-slate-800 rounded-2xl text-slate-200 text-xs font-bold transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" /> Reverter para esta versão
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
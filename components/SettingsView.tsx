@@ -0,0 +1,47 @@
+import React from 'react';
+import { ArrowLeft } from 'lucide-react';
+
+interface SettingsViewProps {
+  onBack: () => void;
+  children: React.ReactNode;
+}
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ onBack, children }) => {
+  return (
+    <div className="h-full bg-slate-950 flex flex-col safe-top safe-bottom">
+      <header className="px-4 py-6 flex items-center gap-4 border-b border-slate-900/50 backdrop-blur-md sticky top-0 z-50">
+        <button onClick={onBack} className="p-3 bg-slate-900 rounded-xl text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h2 className="flex-1 text-xl font-black text-white px-2">Configurações</h2>
+      </header>
+      <div className="flex-1 overflow-y-auto px-4 py-6 space-y-6 pb-20 scrollbar-hide">
+        {children}
+      </div>
+    </div>
+  );
+};
+
+interface SettingsSectionProps {
+  icon: React.ComponentType<{ className?: string }>;
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}
+
+export const SettingsSection: React.FC<SettingsSectionProps> = ({ icon: Icon, title, description, children }) => {
+  return (
+    <section className="bg-slate-900/40 backdrop-blur-sm p-6 rounded-[32px] border border-slate-800/50 space-y-5">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 rounded-lg bg-cyan-500/10 flex items-center justify-center shrink-0">
+          <Icon className="w-4 h-4 text-cyan-400" />
+        </div>
+        <div>
+          <h3 className="text-slate-100 text-sm font-bold">{title}</h3>
+          {description && <p className="text-slate-500 text-xs">{description}</p>}
+        </div>
+      </div>
+      {children}
+    </section>
+  );
+};
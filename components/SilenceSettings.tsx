@@ -0,0 +1,58 @@
+import React from 'react';
+import { VolumeX } from 'lucide-react';
+import { SettingsSection } from './SettingsView';
+import { SilenceSettings as SilenceConfig } from '../services/settings';
+
+interface SilenceSettingsProps {
+  config: SilenceConfig;
+  onChange: (changes: Partial<SilenceConfig>) => void;
+}
+
+const AUTO_STOP_OPTIONS = [0, 2, 5, 10, 15];
+
+const Toggle: React.FC<{ label: string; description: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, description, checked, onChange }) => (
+  <label className="flex items-center justify-between gap-4 px-1">
+    <div>
+      <div className="text-sm text-slate-300 font-medium">{label}</div>
+      <div className="text-xs text-slate-500">{description}</div>
+    </div>
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="w-5 h-5 accent-blue-600 shrink-0" />
+  </label>
+);
+
+export const SilenceSettings: React.FC<SilenceSettingsProps> = ({ config, onChange }) => {
+  return (
+    <SettingsSection icon={VolumeX} title="Silêncio" description="Evite gravar e enviar longos trechos sem fala.">
+      <div className="space-y-4">
+        <Toggle
+          label="Pausar automaticamente"
+          description="Pausa a gravação durante silêncios e retoma quando alguém fala."
+          checked={config.autoPause}
+          onChange={autoPause => onChange({ autoPause })}
+        />
+        <Toggle
+          label="Remover silêncios antes do envio"
+          description="Corta silêncio no início, no fim e pausas longas antes da transcrição."
+          checked={config.trim}
+          onChange={trim => onChange({ trim })}
+        />
+        <div className="space-y-2 px-1">
+          <div className="text-sm text-slate-300 font-medium">Parar após silêncio prolongado</div>
+          <div className="grid grid-cols-5 gap-2">
+            {AUTO_STOP_OPTIONS.map(minutes => (
+              <button
+                key={minutes}
+                onClick={() => onChange({ autoStopMinutes: minutes })}
+                className={`py-3 rounded-2xl text-xs font-bold transition-colors ${
+                  config.autoStopMinutes === minutes ? 'bg-blue-600 text-white' : 'bg-slate-800/60 text-slate-400 hover:bg-slate-800'
+                }`}
+              >
+                {minutes === 0 ? 'Nunca' : `${minutes} min`}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </SettingsSection>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MonitorSpeaker } from 'lucide-react';
+import { measureLevel, createLevelBuffer } from '../utils/audioLevel';
+
+interface SourceLevelsProps {
+  mic: AnalyserNode;
+  system?: AnalyserNode;
+}
+
+const LevelBar: React.FC<{ icon: typeof Mic; label: string; level: number }> = ({ icon: Icon, label, level }) => (
+  <div className="flex items-center gap-3">
+    <Icon className="w-4 h-4 text-slate-500 shrink-0" />
+    <span className="w-24 text-left text-[10px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <div className="flex-1 h-2 bg-slate-900 rounded-full overflow-hidden">
+      <div className="h-full bg-gradient-to-r from-cyan-400 to-blue-600 transition-[width] duration-75" style={{ width: `${Math.round(level * 100)}%` }} />
+    </div>
+  </div>
+);
+
+// Nível de cada fonte separadamente, útil para perceber quando a aba compartilhada está muda
+export const SourceLevels: React.FC<SourceLevelsProps> = ({ mic, system }) => {
+  const [levels, setLevels] = useState({ mic: 0, system: 0 });
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const micBuffer = createLevelBuffer(mic);
+    const systemBuffer = system ? createLevelBuffer(system) : null;
+    // Escala o RMS para que a fala normal ocupe boa parte da barra
+    const scale = (rms: number) => Math.min(1, rms * 4);
+
+    const tick = () => {
+      setLevels({
+        mic: scale(measureLevel(mic, micBuffer).rms),
+        system: system && systemBuffer ? scale(measureLevel(system, systemBuffer).rms) : 0,
+      });
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    };
+  }, [mic, system]);
+
+  return (
+    <div className="w-full max-w-[300px] space-y-2">
+      <LevelBar icon={Mic} label="Microfone" level={levels.mic} />
+      {system && <LevelBar icon={MonitorSpeaker} label="Reunião" level={levels.system} />}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { RefreshCw, Loader2, Cloud } from 'lucide-react';
+import { SettingsSection } from './SettingsView';
+import { SyncSettings as SyncConfig } from '../services/settings';
+
+interface SyncSettingsProps {
+  config: SyncConfig;
+  isSyncing: boolean;
+  lastSyncAt?: string;
+  lastError?: string | null;
+  onChange: (changes: Partial<SyncConfig>) => void;
+  onSyncNow: () => void;
+}
+
+const inputClass = "w-full bg-slate-950/60 border border-slate-800 rounded-2xl py-3 px-4 text-sm focus:border-cyan-500/30 outline-none text-white";
+
+export const SyncSettings: React.FC<SyncSettingsProps> = ({ config, isSyncing, lastSyncAt, lastError, onChange, onSyncNow }) => {
+  return (
+    <SettingsSection icon={Cloud} title="Sincronização" description="Mantenha a mesma biblioteca em vários aparelhos usando seu próprio servidor.">
+      <div className="space-y-3">
+        <input
+          value={config.endpoint}
+          onChange={e => onChange({ endpoint: e.target.value.trim() })}
+          placeholder="https://meu-servidor:8787"
+          inputMode="url"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={config.token}
+          onChange={e => onChange({ token: e.target.value })}
+          placeholder="Token de acesso (opcional)"
+          className={inputClass}
+        />
+        <label className="flex items-center justify-between gap-3 px-1 text-sm text-slate-300 font-medium">
+          Sincronizar também os áudios
+          <input
+            type="checkbox"
+            checked={config.includeAudio}
+            onChange={e => onChange({ includeAudio: e.target.checked })}
+            className="w-5 h-5 accent-blue-600"
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className={`text-xs ${lastError ? 'text-red-400 font-bold' : 'text-slate-500'}`}>
+          {lastError || (lastSyncAt ? `Última sincronização: ${new Date(lastSyncAt).toLocaleString('pt-BR')}` : 'Ainda não sincronizado')}
+        </p>
+        <button
+          onClick={onSyncNow}
+          disabled={!config.endpoint || isSyncing}
+          className="shrink-0 flex items-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-2xl text-white text-xs font-bold transition-colors"
+        >
+          {isSyncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Sincronizar
+        </button>
+      </div>
+    </SettingsSection>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { SettingsSection } from './SettingsView';
+
+interface TrashSettingsProps {
+  retentionDays: number;
+  onChange: (days: number) => void;
+}
+
+const OPTIONS = [
+  { days: 7, label: '7 dias' },
+  { days: 30, label: '30 dias' },
+  { days: 90, label: '90 dias' },
+  { days: 0, label: 'Nunca' },
+];
+
+export const TrashSettings: React.FC<TrashSettingsProps> = ({ retentionDays, onChange }) => {
+  return (
+    <SettingsSection icon={Trash2} title="Lixeira" description="Tempo até a exclusão definitiva das notas e áudios.">
+      <div className="grid grid-cols-4 gap-2">
+        {OPTIONS.map(({ days, label }) => (
+          <button
+            key={days}
+            onClick={() => onChange(days)}
+            className={`py-3 rounded-2xl text-xs font-bold transition-colors ${
+              retentionDays === days ? 'bg-blue-600 text-white' : 'bg-slate-800/60 text-slate-400 hover:bg-slate-800'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </SettingsSection>
+  );
+};
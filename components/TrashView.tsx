@@ -0,0 +1,72 @@
+import React from 'react';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { Note } from '../types';
+import { daysUntilPurge } from '../services/trash';
+import { formatDate, formatTime } from '../utils/format';
+
+interface TrashViewProps {
+  notes: Note[];
+  retentionDays: number;
+  onRestore: (id: string) => void;
+  onDeletePermanently: (id: string) => void;
+  onEmpty: () => void;
+  onBack: () => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ notes, retentionDays, onRestore, onDeletePermanently, onEmpty, onBack }) => {
+  return (
+    <div className="h-full bg-slate-950 flex flex-col safe-top safe-bottom">
+      <header className="px-4 py-6 flex items-center gap-4 border-b border-slate-900/50 backdrop-blur-md sticky top-0 z-50">
+        <button onClick={onBack} className="p-3 bg-slate-900 rounded-xl text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h2 className="flex-1 text-xl font-black text-white px-2">Lixeira</h2>
+        {notes.length > 0 && (
+          <button onClick={onEmpty} className="px-4 py-2 text-xs font-bold text-red-400 hover:text-red-300 bg-red-500/10 rounded-xl transition-colors">
+            Esvaziar
+          </button>
+        )}
+      </header>
+
+      <div className="flex-1 overflow-y-auto px-4 py-6 space-y-4 pb-20 scrollbar-hide">
+        <p className="text-slate-500 text-xs font-bold uppercase tracking-widest px-1">
+          {retentionDays > 0
+            ? `Notas são excluídas definitivamente após ${retentionDays} dias`
+            : 'Esvaziamento automático desativado'}
+        </p>
+
+        {notes.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[50vh] text-center gap-4">
+            <Trash2 className="w-12 h-12 text-slate-700" />
+            <p className="font-bold text-slate-400">A lixeira está vazia</p>
+          </div>
+        ) : (
+          notes.map(note => {
+            const remaining = daysUntilPurge(note, retentionDays);
+            return (
+              <div key={note.id} className="bg-slate-900/50 p-4 rounded-2xl border border-slate-800 space-y-3">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="overflow-hidden">
+                    <h3 className="font-bold text-slate-300 line-clamp-1">{note.title}</h3>
+                    <p className="text-xs text-slate-500 font-medium">
+                      {formatDate(note.createdAt)} · {formatTime(note.durationSeconds)}
+                      {remaining !== null && ` · ${remaining === 0 ? 'excluída hoje' : `${remaining} dia(s) restantes`}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button onClick={() => onRestore(note.id)} className="p-2.5 bg-slate-800/60 rounded-xl text-slate-400 hover:text-cyan-400 transition-colors" title="Restaurar">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onDeletePermanently(note.id)} className="p-2.5 bg-slate-800/60 rounded-xl text-slate-400 hover:text-red-500 transition-colors" title="Excluir definitivamente">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+
+interface VaultLockProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+export const VaultLock: React.FC<VaultLockProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err: any) {
+      setError(err.message || "Não foi possível desbloquear.");
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="h-full bg-slate-950 flex flex-col items-center justify-center p-8 safe-top safe-bottom">
+      <form onSubmit={submit} className="w-full max-w-sm flex flex-col items-center gap-8 text-center">
+        <div className="w-20 h-20 rounded-[28px] bg-gradient-to-br from-cyan-400 via-blue-600 to-indigo-700 flex items-center justify-center shadow-lg shadow-blue-500/30">
+          <Lock className="w-9 h-9 text-white" />
+        </div>
+        <div className="space-y-2">
+          <p className="text-2xl font-black text-white tracking-tight">Cofre bloqueado</p>
+          <p className="text-sm text-slate-500 font-medium">Digite sua senha para acessar as notas e gravações.</p>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Senha do cofre"
+          className="w-full bg-slate-900/40 border border-slate-800/50 rounded-[20px] py-4 px-5 text-sm focus:border-cyan-500/30 outline-none text-white"
+        />
+        {error && <p className="text-red-400 text-sm font-bold">{error}</p>}
+        <button
+          type="submit"
+          disabled={isUnlocking || !passphrase}
+          className="w-full h-14 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-2xl font-black flex items-center justify-center gap-3 transition-all active:scale-95"
+        >
+          {isUnlocking ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Desbloquear'}
+        </button>
+      </form>
+    </div>
+  );
+};
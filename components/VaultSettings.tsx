@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+import { SettingsSection } from './SettingsView';
+
+interface VaultSettingsProps {
+  isEnabled: boolean;
+  onEnable: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onDisable: (passphrase: string) => Promise<void>;
+}
+
+type Mode = 'idle' | 'enable' | 'change' | 'disable';
+
+const MIN_LENGTH = 8;
+
+const inputClass = "w-full bg-slate-950/60 border border-slate-800 rounded-2xl py-3 px-4 text-sm focus:border-cyan-500/30 outline-none text-white";
+
+export const VaultSettings: React.FC<VaultSettingsProps> = ({ isEnabled, onEnable, onChangePassphrase, onDisable }) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reset = () => {
+    setMode('idle');
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (mode !== 'disable') {
+      if (next.length < MIN_LENGTH) return setError(`A senha deve ter ao menos ${MIN_LENGTH} caracteres.`);
+      if (next !== confirmation) return setError("As senhas não conferem.");
+    }
+    setIsBusy(true);
+    try {
+      if (mode === 'enable') await onEnable(next);
+      if (mode === 'change') await onChangePassphrase(current, next);
+      if (mode === 'disable') await onDisable(current);
+      reset();
+    } catch (err: any) {
+      setError(err.message || "Operação não concluída.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <SettingsSection
+      icon={ShieldCheck}
+      title="Cofre criptografado"
+      description={isEnabled ? "Notas e áudios protegidos por senha." : "Proteja notas e áudios com uma senha."}
+    >
+      {mode === 'idle' ? (
+        <div className="flex gap-3">
+          {isEnabled ? (
+            <>
+              <button onClick={() => setMode('change')} className="flex-1 py-3 bg-slate-800/60 hover:bg-slate-800 rounded-2xl text-slate-200 text-sm font-bold transition-colors">
+                Trocar senha
+              </button>
+              <button onClick={() => setMode('disable')} className="flex-1 py-3 bg-slate-800/60 hover:bg-red-500/20 rounded-2xl text-red-400 text-sm font-bold transition-colors">
+                Desativar
+              </button>
+            </>
+          ) : (
+            <button onClick={() => setMode('enable')} className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 rounded-2xl text-white text-sm font-bold transition-colors">
+              Ativar cofre
+            </button>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={submit} className="space-y-3">
+          {mode !== 'enable' && (
+            <input type="password" value={current} onChange={e => setCurrent(e.target.value)} placeholder="Senha atual" className={inputClass} />
+          )}
+          {mode !== 'disable' && (
+            <>
+              <input type="password" value={next} onChange={e => setNext(e.target.value)} placeholder="Nova senha" className={inputClass} />
+              <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} placeholder="Confirme a nova senha" className={inputClass} />
+            </>
+          )}
+          {mode === 'enable' && (
+            <p className="text-amber-400/80 text-xs">Não há como recuperar a senha. Se ela for esquecida, os dados ficarão inacessíveis.</p>
+          )}
+          {error && <p className="text-red-400 text-xs font-bold">{error}</p>}
+          <div className="flex gap-3">
+            <button type="button" onClick={reset} className="flex-1 py-3 text-slate-500 hover:text-white text-sm font-bold">
+              Cancelar
+            </button>
+            <button type="submit" disabled={isBusy} className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-2xl text-white text-sm font-bold flex items-center justify-center">
+              {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Confirmar'}
+            </button>
+          </div>
+        </form>
+      )}
+    </SettingsSection>
+  );
+};
@@ -1,57 +1,39 @@
-
 import React, { useEffect, useRef } from 'react';
 
 interface WaveformProps {
-  isRecording: boolean;
+  analyser: AnalyserNode | null;
+  isPaused?: boolean;
 }
 
-export const Waveform: React.FC<WaveformProps> = ({ isRecording }) => {
+export const Waveform: React.FC<WaveformProps> = ({ analyser, isPaused = false }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
+  const isPausedRef = useRef(isPaused);
   const animationFrameRef = useRef<number | null>(null);
+  isPausedRef.current = isPaused;
 
+  // O stream e o analisador pertencem ao serviço de captura; aqui apenas desenhamos
   useEffect(() => {
-    if (isRecording) {
-      const initAudio = async () => {
-        try {
-          const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-          audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-          analyserRef.current = audioContextRef.current.createAnalyser();
-          const source = audioContextRef.current.createMediaStreamSource(stream);
-          source.connect(analyserRef.current);
-          analyserRef.current.fftSize = 256;
-          
-          draw();
-        } catch (err) {
-          console.error("Error visualizing audio:", err);
-        }
-      };
-      initAudio();
-    } else {
-      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-      if (audioContextRef.current) audioContextRef.current.close();
-    }
-
+    if (analyser) draw(analyser);
     return () => {
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-      if (audioContextRef.current) audioContextRef.current.close();
     };
-  }, [isRecording]);
+  }, [analyser]);
 
-  const draw = () => {
-    if (!canvasRef.current || !analyserRef.current) return;
+  const draw = (analyser: AnalyserNode) => {
+    if (!canvasRef.current) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const bufferLength = analyserRef.current.frequencyBinCount;
+    const bufferLength = analyser.frequencyBinCount;
     const dataArray = new Uint8Array(bufferLength);
 
     const renderFrame = () => {
       animationFrameRef.current = requestAnimationFrame(renderFrame);
-      analyserRef.current!.getByteFrequencyData(dataArray);
+      // Em pausa, mantém o último quadro congelado
+      if (isPausedRef.current) return;
+      analyser.getByteFrequencyData(dataArray);
 
       ctx.clearRect(0, 0, canvas.width, canvas.height);
 
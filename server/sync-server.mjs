@@ -0,0 +1,144 @@
+// Servidor de referência para a sincronização do VozNote. Sem dependências:
+//   node server/sync-server.mjs [--port 8787] [--data ./voznote-sync-data] [--token segredo]
+//
+// Protocolo:
+//   GET    /notes?since=<cursor>  -> { cursor, notes: [{ id, version, deleted, hasAudio, audioParts, note }] }
+//   PUT    /notes/:id             <- { note, baseVersion }  -> 200 { version } | 409 { version, note }
+//   DELETE /notes/:id             -> 200 { version }
+//   PUT    /notes/:id/audio       <- corpo binário do áudio
+//   GET    /notes/:id/audio       -> corpo binário do áudio
+//   PUT    /notes/:id/audio/:n    <- corpo binário do trecho n (gravação continuada)
+//   GET    /notes/:id/audio/:n    -> corpo binário do trecho n
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const arg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? process.argv[index + 1] : fallback;
+};
+
+const PORT = Number(arg('port', process.env.PORT || 8787));
+const DATA_DIR = path.resolve(arg('data', process.env.VOZNOTE_SYNC_DATA || './voznote-sync-data'));
+const TOKEN = arg('token', process.env.VOZNOTE_SYNC_TOKEN || '');
+const DB_FILE = path.join(DATA_DIR, 'notes.json');
+const AUDIO_DIR = path.join(DATA_DIR, 'audio');
+
+fs.mkdirSync(AUDIO_DIR, { recursive: true });
+
+// { seq, entries: { [id]: { id, version, seq, deleted, hasAudio, audioType, partTypes: { [n]: type }, note } } }
+let db = fs.existsSync(DB_FILE) ? JSON.parse(fs.readFileSync(DB_FILE, 'utf8')) : { seq: 0, entries: {} };
+
+const persist = () => {
+  const tmp = `${DB_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(db));
+  fs.renameSync(tmp, DB_FILE);
+};
+
+// O áudio não altera a versão da nota, apenas o cursor, para não gerar conflitos falsos
+const touch = (entry, { bumpVersion = true } = {}) => {
+  db.seq += 1;
+  entry.seq = db.seq;
+  if (bumpVersion) entry.version += 1;
+  db.entries[entry.id] = entry;
+  persist();
+  return entry;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const audioPath = (id, part) => path.join(AUDIO_DIR, encodeURIComponent(part ? `${id}:${part}` : id));
+
+const removeAudio = (entry) => {
+  fs.rmSync(audioPath(entry.id), { force: true });
+  Object.keys(entry.partTypes ?? {}).forEach(part => fs.rmSync(audioPath(entry.id, part), { force: true }));
+};
+
+const publicEntry = ({ id, version, deleted, hasAudio, partTypes, note }) => ({
+  id, version, deleted, hasAudio, audioParts: Object.keys(partTypes ?? {}).map(Number), note,
+});
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { error: 'unauthorized' });
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/notes(?:\/([^/]+))?(\/audio(?:\/(\d+))?)?$/);
+  if (!match) return send(res, 404, { error: 'not found' });
+  const id = match[1] && decodeURIComponent(match[1]);
+  const isAudio = Boolean(match[2]);
+  const part = match[3];
+
+  try {
+    if (!id && req.method === 'GET') {
+      const since = Number(url.searchParams.get('since')) || 0;
+      const notes = Object.values(db.entries).filter(e => e.seq > since).map(publicEntry);
+      return send(res, 200, { cursor: db.seq, notes });
+    }
+
+    const existing = id ? db.entries[id] : undefined;
+
+    if (id && !isAudio && req.method === 'PUT') {
+      const { note, baseVersion } = JSON.parse((await readBody(req)).toString('utf8'));
+      if (!note || note.id !== id) return send(res, 400, { error: 'invalid note' });
+      // Notas excluídas podem ser recriadas; as demais exigem a versão base atual
+      if (existing && !existing.deleted && existing.version !== baseVersion) {
+        return send(res, 409, { version: existing.version, note: existing.note });
+      }
+      const entry = touch({ ...(existing || { id, version: 0, hasAudio: false }), deleted: false, note });
+      return send(res, 200, { version: entry.version });
+    }
+
+    if (id && !isAudio && req.method === 'DELETE') {
+      if (!existing) return send(res, 200, { version: 0 });
+      removeAudio(existing);
+      const entry = touch({ ...existing, deleted: true, hasAudio: false, partTypes: {}, note: null });
+      return send(res, 200, { version: entry.version });
+    }
+
+    if (id && isAudio && req.method === 'PUT') {
+      if (!existing || existing.deleted) return send(res, 404, { error: 'note not found' });
+      fs.writeFileSync(audioPath(id, part), await readBody(req));
+      const type = req.headers['content-type'] || 'application/octet-stream';
+      touch(part
+        ? { ...existing, partTypes: { ...existing.partTypes, [part]: type } }
+        : { ...existing, hasAudio: true, audioType: type }, { bumpVersion: false });
+      return send(res, 200, {});
+    }
+
+    if (id && isAudio && req.method === 'GET') {
+      const type = part ? existing?.partTypes?.[part] : existing?.hasAudio && existing.audioType;
+      if (!existing || (part ? !type : !existing.hasAudio) || !fs.existsSync(audioPath(id, part))) {
+        return send(res, 404, { error: 'audio not found' });
+      }
+      res.writeHead(200, { 'Content-Type': type || 'application/octet-stream' });
+      return fs.createReadStream(audioPath(id, part)).pipe(res);
+    }
+
+    return send(res, 405, { error: 'method not allowed' });
+  } catch (error) {
+    console.error(error);
+    return send(res, 500, { error: 'internal error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`VozNote sync server em http://localhost:${PORT} (dados em ${DATA_DIR})`);
+});
@@ -1,39 +1,58 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, FileState, Part, createPartFromUri, File as GeminiFile } from "@google/genai";
+import { blobToBase64 } from "../utils/blob";
+import { formatTime } from "../utils/format";
+import { baseMimeType, FALLBACK_MIME_TYPE } from "./mediaFormats";
+import { RecordingMarker } from "../types";
 
-const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+// Acima disso o áudio é enviado pela Files API em vez de base64 no corpo da requisição
+const INLINE_AUDIO_LIMIT_BYTES = 4 * 1024 * 1024;
+const FILE_POLL_INTERVAL_MS = 2000;
+const FILE_READY_TIMEOUT_MS = 3 * 60 * 1000;
+
+// Aguarda o arquivo enviado sair do estado PROCESSING antes de usá-lo no prompt
+const waitUntilActive = async (ai: GoogleGenAI, file: GeminiFile): Promise<GeminiFile> => {
+  const deadline = Date.now() + FILE_READY_TIMEOUT_MS;
+  let current = file;
+  while (current.state === FileState.PROCESSING) {
+    if (Date.now() > deadline) throw new Error("O envio do áudio demorou demais para ser processado.");
+    await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+    current = await ai.files.get({ name: file.name! });
+  }
+  if (current.state === FileState.FAILED) {
+    throw new Error(current.error?.message || "O servidor não conseguiu processar o arquivo de áudio.");
+  }
+  return current;
 };
 
 export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
+  let ai: GoogleGenAI | null = null;
+  let uploaded: GeminiFile | null = null;
   try {
     const apiKey = process.env.API_KEY;
     if (!apiKey || apiKey === "undefined" || apiKey.includes("API_KEY")) {
       throw new Error("API Key não configurada nas variáveis de ambiente da Vercel.");
     }
 
-    const ai = new GoogleGenAI({ apiKey });
-    const base64Data = await blobToBase64(audioBlob);
+    ai = new GoogleGenAI({ apiKey });
+    const mimeType = baseMimeType(audioBlob.type || FALLBACK_MIME_TYPE);
+    let audioPart: Part;
+    if (audioBlob.size > INLINE_AUDIO_LIMIT_BYTES) {
+      uploaded = await ai.files.upload({
+        file: audioBlob,
+        config: { mimeType, displayName: `voznote-${Date.now()}` },
+      });
+      uploaded = await waitUntilActive(ai, uploaded);
+      audioPart = createPartFromUri(uploaded.uri!, uploaded.mimeType || mimeType);
+    } else {
+      audioPart = { inlineData: { mimeType, data: await blobToBase64(audioBlob) } };
+    }
     
     const response = await ai.models.generateContent({
       model: 'gemini-3-flash-preview',
       contents: {
         parts: [
-          {
-            inlineData: {
-              mimeType: audioBlob.type || 'audio/webm',
-              data: base64Data,
-            },
-          },
+          audioPart,
           {
             text: "Transcreva este áudio para Português do Brasil com precisão. Identifique falantes diferentes e utilize pontuação correta. Retorne apenas a transcrição do que foi falado.",
           },
@@ -56,10 +75,22 @@ export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
       throw new Error("Chave de API inválida ou bloqueada. Verifique suas configurações.");
     }
     throw new Error(error.message || "Erro de conexão ao processar áudio.");
+  } finally {
+    // O arquivo só é necessário durante a transcrição
+    if (ai && uploaded?.name) {
+      ai.files.delete({ name: uploaded.name }).catch(err => console.warn("Não foi possível apagar o arquivo enviado", err));
+    }
   }
 };
 
-export const summarizeText = async (text: string): Promise<string> => {
+// Momentos marcados pelo usuário durante a gravação, usados como ênfase no resumo
+const describeMarkers = (markers: RecordingMarker[]): string => {
+  if (markers.length === 0) return "";
+  const lines = markers.map(m => `- [${formatTime(m.offsetSeconds)}] ${m.text?.trim() || "Momento importante"}`);
+  return `\nDurante a gravação o usuário destacou os momentos abaixo (tempo aproximado no áudio). Dê ênfase ao que foi discutido nesses pontos e incorpore as anotações ao resumo:\n${lines.join("\n")}\n`;
+};
+
+export const summarizeText = async (text: string, markers: RecordingMarker[] = []): Promise<string> => {
   try {
     const apiKey = process.env.API_KEY;
     if (!apiKey) throw new Error("API Key ausente.");
@@ -77,7 +108,7 @@ export const summarizeText = async (text: string): Promise<string> => {
             - Principais Tópicos (Bullet points)
             - Decisões Tomadas
             - Próximos Passos (Action Items)
-            
+            ${describeMarkers(markers)}
             Transcrição: ${text}`,
           },
         ],
@@ -0,0 +1,66 @@
+// Arquivos de áudio externos (gravadores do celular, mensagens de voz) importados como notas
+
+export const AUDIO_IMPORT_ACCEPT = 'audio/*,.mp3,.m4a,.wav,.ogg,.opus';
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  opus: 'audio/ogg', // mensagens de voz do WhatsApp são Opus em contêiner Ogg
+};
+
+// Variantes não padronizadas que alguns sistemas informam no File.type
+const MIME_ALIASES: Record<string, string> = {
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/mp3': 'audio/mpeg',
+  'audio/opus': 'audio/ogg',
+};
+
+const DURATION_TIMEOUT_MS = 5000;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+export const resolveAudioMimeType = (file: File): string => {
+  const type = file.type.split(';')[0].trim().toLowerCase();
+  if (type.startsWith('audio/')) return MIME_ALIASES[type] ?? type;
+  return MIME_BY_EXTENSION[extensionOf(file.name)] ?? '';
+};
+
+const SUPPORTED_MIME_TYPES = new Set(Object.values(MIME_BY_EXTENSION));
+
+export const isSupportedAudioFile = (file: File): boolean =>
+  extensionOf(file.name) in MIME_BY_EXTENSION || SUPPORTED_MIME_TYPES.has(resolveAudioMimeType(file));
+
+export const titleFromFileName = (name: string): string =>
+  name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || 'Áudio importado';
+
+// Lê a duração pelos metadados do arquivo; retorna 0 quando o navegador não consegue informar
+export const readAudioDuration = (blob: Blob): Promise<number> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    let done = false;
+    const finish = (seconds: number) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timeout);
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(seconds) ? Math.round(seconds) : 0);
+    };
+    const timeout = setTimeout(() => finish(0), DURATION_TIMEOUT_MS);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => {
+      if (Number.isFinite(audio.duration)) return finish(audio.duration);
+      // Alguns contêineres só revelam a duração depois de buscar o final do arquivo
+      audio.ondurationchange = () => {
+        if (Number.isFinite(audio.duration)) finish(audio.duration);
+      };
+      audio.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    audio.onerror = () => finish(0);
+    audio.src = url;
+  });
@@ -0,0 +1,130 @@
+// Fonte única de captura: um só MediaStream alimenta o MediaRecorder e o analisador da visualização
+
+export type RecordingSource = 'mic' | 'mic+system';
+
+export interface AudioInputOptions {
+  deviceId?: string;
+  constraints?: MediaTrackConstraints;
+  source?: RecordingSource;
+}
+
+export interface AudioInput {
+  stream: MediaStream; // stream entregue ao MediaRecorder (mixado quando há áudio do sistema)
+  context: AudioContext;
+  analyser: AnalyserNode; // sinal final, usado pela visualização
+  sourceAnalysers: { mic: AnalyserNode; system?: AnalyserNode };
+  micStream: MediaStream;
+  systemStream?: MediaStream;
+}
+
+let current: AudioInput | null = null;
+let capturedStreams: MediaStream[] = [];
+
+const openStream = async (deviceId?: string, constraints: MediaTrackConstraints = {}): Promise<MediaStream> => {
+  if (!deviceId) return navigator.mediaDevices.getUserMedia({ audio: constraints });
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: { ...constraints, deviceId: { exact: deviceId } } });
+  } catch (err: any) {
+    // Dispositivo lembrado pode ter sido desconectado; volta para o padrão do sistema
+    if (err?.name === 'OverconstrainedError' || err?.name === 'NotFoundError') {
+      console.warn("Microfone selecionado indisponível, usando o padrão.");
+      return navigator.mediaDevices.getUserMedia({ audio: constraints });
+    }
+    throw err;
+  }
+};
+
+export const isSystemAudioSupported = () => !!navigator.mediaDevices?.getDisplayMedia;
+
+// O navegador exige vídeo para compartilhar uma aba; descartamos a trilha de vídeo logo em seguida
+const openSystemStream = async (): Promise<MediaStream> => {
+  if (!isSystemAudioSupported()) {
+    throw new Error("Este navegador não permite capturar o áudio de abas ou do sistema.");
+  }
+  const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+  display.getVideoTracks().forEach(t => t.stop());
+  if (display.getAudioTracks().length === 0) {
+    display.getTracks().forEach(t => t.stop());
+    throw new Error("Nenhum áudio compartilhado. Marque a opção \"Compartilhar áudio\" ao escolher a aba.");
+  }
+  return new MediaStream(display.getAudioTracks());
+};
+
+const createAnalyser = (context: AudioContext) => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 256;
+  return analyser;
+};
+
+export const acquireInput = async ({ deviceId, constraints, source = 'mic' }: AudioInputOptions = {}): Promise<AudioInput> => {
+  releaseInput();
+  const micStream = await openStream(deviceId, constraints);
+  capturedStreams = [micStream];
+
+  let systemStream: MediaStream | undefined;
+  if (source === 'mic+system') {
+    try {
+      systemStream = await openSystemStream();
+      capturedStreams.push(systemStream);
+    } catch (err) {
+      releaseInput();
+      throw err;
+    }
+  }
+
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  await context.resume().catch(() => {});
+  const analyser = createAnalyser(context);
+  const micAnalyser = createAnalyser(context);
+  const micSource = context.createMediaStreamSource(micStream);
+  micSource.connect(micAnalyser);
+
+  if (!systemStream) {
+    micSource.connect(analyser);
+    current = { stream: micStream, context, analyser, sourceAnalysers: { mic: micAnalyser }, micStream };
+    return current;
+  }
+
+  // Mixa microfone e áudio do sistema em um único destino gravável
+  const destination = context.createMediaStreamDestination();
+  const mix = context.createGain();
+  const systemAnalyser = createAnalyser(context);
+  const systemSource = context.createMediaStreamSource(systemStream);
+  micSource.connect(mix);
+  systemSource.connect(systemAnalyser);
+  systemSource.connect(mix);
+  mix.connect(destination);
+  mix.connect(analyser);
+
+  current = {
+    stream: destination.stream,
+    context,
+    analyser,
+    sourceAnalysers: { mic: micAnalyser, system: systemAnalyser },
+    micStream,
+    systemStream,
+  };
+  return current;
+};
+
+export const getInput = () => current;
+
+export const releaseInput = () => {
+  capturedStreams.forEach(stream => stream.getTracks().forEach(t => t.stop()));
+  capturedStreams = [];
+  if (!current) return;
+  current.stream.getTracks().forEach(t => t.stop());
+  current.context.close().catch(() => {});
+  current = null;
+};
+
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+};
+
+// Os nomes dos dispositivos só aparecem depois que o usuário concede acesso ao microfone
+export const requestDeviceLabels = async (): Promise<void> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  stream.getTracks().forEach(t => t.stop());
+};
@@ -0,0 +1,173 @@
+import { SILENCE_THRESHOLD_DB } from './voiceActivity';
+import { enhanceSpeech } from './speechEnhancement';
+import type { EncodeRequest, EncodeResponse } from '../workers/audioEncoder';
+
+// Processamento do áudio gravado antes do envio para a IA
+
+export const TARGET_SAMPLE_RATE = 16000;
+
+const FRAME_MS = 20;
+const MIN_INTERNAL_SILENCE_MS = 2000;
+const KEEP_SILENCE_MS = 400;
+// Acima disso o áudio vai sem pré-processamento: decodificar, realçar e cortar mantêm várias cópias
+// da gravação inteira na memória, o que derruba a aba no celular em reuniões longas
+export const MAX_PREPARE_SECONDS = 20 * 60;
+// Acima disso vale enviar a versão cortada mesmo que fique maior: a IA cobra pela duração
+const MIN_TRIMMED_SECONDS = 5;
+
+export interface UploadPreparation {
+  blob: Blob;
+  removedSeconds: number;
+  hasSpeech: boolean;
+}
+
+// decodeAudioData já reamostra para a taxa do contexto, então o áudio nunca fica na memória na taxa original
+export const decodeAudio = async (blob: Blob, sampleRate = TARGET_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(await blob.arrayBuffer());
+};
+
+// Converte para mono o intervalo [from, to) (em amostras) do áudio decodificado
+export const renderMono = async (decoded: AudioBuffer, from = 0, to = decoded.length): Promise<Float32Array> => {
+  const { sampleRate } = decoded;
+  const offline = new OfflineAudioContext(1, Math.max(1, to - from), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start(0, from / sampleRate, (to - from) / sampleRate);
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+export const decodeToMono = async (blob: Blob, sampleRate = TARGET_SAMPLE_RATE): Promise<Float32Array> =>
+  renderMono(await decodeAudio(blob, sampleRate));
+
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Remove silêncio do início e do fim e encurta pausas internas longas, mantendo uma margem
+export const trimSilence = (samples: Float32Array, sampleRate: number, thresholdDb = SILENCE_THRESHOLD_DB): Float32Array => {
+  const frameSize = Math.round(sampleRate * FRAME_MS / 1000);
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const silent: boolean[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    const start = f * frameSize;
+    const end = Math.min(samples.length, start + frameSize);
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    silent.push(Math.sqrt(sum / Math.max(1, end - start)) < threshold);
+  }
+
+  const keepFrames = Math.round(KEEP_SILENCE_MS / FRAME_MS);
+  const minInternalFrames = Math.round(MIN_INTERNAL_SILENCE_MS / FRAME_MS);
+  const keep = new Array<boolean>(frameCount).fill(true);
+
+  let f = 0;
+  while (f < frameCount) {
+    if (!silent[f]) { f++; continue; }
+    const runStart = f;
+    while (f < frameCount && silent[f]) f++;
+    const runEnd = f;
+    const isLeading = runStart === 0;
+    const isTrailing = runEnd === frameCount;
+    const length = runEnd - runStart;
+
+    if (isLeading || isTrailing || length >= minInternalFrames) {
+      // Mantém a margem encostada na fala de cada lado do trecho removido
+      const keepBefore = isLeading ? 0 : keepFrames;
+      const keepAfter = isTrailing ? 0 : keepFrames;
+      for (let i = runStart + keepBefore; i < runEnd - keepAfter; i++) keep[i] = false;
+    }
+  }
+
+  const kept = keep.filter(Boolean).length;
+  if (kept === 0) return new Float32Array(0);
+  const output = new Float32Array(Math.min(samples.length, kept * frameSize));
+  let offset = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (!keep[frame]) continue;
+    const chunk = samples.subarray(frame * frameSize, Math.min(samples.length, (frame + 1) * frameSize));
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output.subarray(0, offset);
+};
+
+// A codificação roda em um worker para não travar a interface em gravações longas.
+// O buffer das amostras é transferido, não copiado: depois da chamada ele fica inutilizável.
+export const encodeInWorker = (samples: Float32Array, sampleRate = TARGET_SAMPLE_RATE): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/audioEncoder.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EncodeResponse>) => {
+      worker.terminate();
+      if ('error' in event.data) reject(new Error(event.data.error));
+      else resolve(event.data.blob);
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Falha ao codificar o áudio.'));
+    };
+    // Uma visão parcial (subarray) levaria o buffer inteiro; só o intervalo é copiado
+    const owned = samples.byteLength === samples.buffer.byteLength ? samples : samples.slice();
+    const request: EncodeRequest = { samples: owned, sampleRate };
+    worker.postMessage(request, [owned.buffer as ArrayBuffer]);
+  });
+
+export interface UploadOptions {
+  trimSilence: boolean;
+  enhance: boolean;
+  durationSeconds: number; // 0 quando desconhecida
+}
+
+// Converte para mono 16 kHz, opcionalmente realça a voz e remove silêncios, e recodifica para envio.
+// O original só é substituído quando a conversão reduz o tamanho ou, em Opus, a duração ou realça a voz.
+export const prepareForUpload = async (blob: Blob, options: UploadOptions): Promise<UploadPreparation> => {
+  if (options.durationSeconds <= 0 || options.durationSeconds > MAX_PREPARE_SECONDS) {
+    return { blob, removedSeconds: 0, hasSpeech: true };
+  }
+  let decoded = await decodeToMono(blob);
+  // O realce vem antes do corte para que falas baixas não sejam tratadas como silêncio
+  if (options.enhance) decoded = await enhanceSpeech(decoded, TARGET_SAMPLE_RATE);
+  const samples = options.trimSilence ? trimSilence(decoded, TARGET_SAMPLE_RATE) : decoded;
+  const removedSeconds = (decoded.length - samples.length) / TARGET_SAMPLE_RATE;
+  if (samples.length === 0) return { blob, removedSeconds, hasSpeech: false };
+
+  const encoded = await encodeInWorker(samples);
+  // Sem Opus o worker grava WAV, bem maior que o original: nesse caso só vale se ainda assim ficar menor
+  const isCompressed = encoded.type !== 'audio/wav';
+  const worthIt = encoded.size < blob.size || (isCompressed && (options.enhance || removedSeconds >= MIN_TRIMMED_SECONDS));
+  return { blob: worthIt ? encoded : blob, removedSeconds: worthIt ? removedSeconds : 0, hasSpeech: true };
+};
+
+// Versão realçada para o player, igual à que é enviada para a transcrição
+export const enhanceForPlayback = async (blob: Blob): Promise<Blob> => {
+  const samples = await decodeToMono(blob);
+  return encodeInWorker(await enhanceSpeech(samples, TARGET_SAMPLE_RATE));
+};
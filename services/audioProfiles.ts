@@ -0,0 +1,64 @@
+import { AudioProfileId } from '../types';
+
+// Perfis de captura: controlam as constraints do getUserMedia e o bitrate do MediaRecorder
+
+export interface AudioProfile {
+  id: AudioProfileId;
+  label: string;
+  description: string;
+  bitrate: number;
+  channelCount: number;
+  sampleRate: number;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const AUDIO_PROFILES: Record<AudioProfileId, AudioProfile> = {
+  voice: {
+    id: 'voice',
+    label: 'Memo de voz',
+    description: 'Uma pessoa perto do aparelho. Arquivos menores.',
+    bitrate: 24000,
+    channelCount: 1,
+    sampleRate: 16000,
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  },
+  meeting: {
+    id: 'meeting',
+    label: 'Sala de reunião',
+    description: 'Várias pessoas ao redor da mesa. Equilíbrio entre qualidade e tamanho.',
+    bitrate: 48000,
+    channelCount: 1,
+    sampleRate: 48000,
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  },
+  hifi: {
+    id: 'hifi',
+    label: 'Alta fidelidade',
+    description: 'Estéreo sem processamento do navegador. Arquivos maiores.',
+    bitrate: 128000,
+    channelCount: 2,
+    sampleRate: 48000,
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+  },
+};
+
+export const DEFAULT_AUDIO_PROFILE: AudioProfileId = 'meeting';
+
+// Chave usada para guardar o perfil de cada microfone nas configurações
+export const profileKeyForDevice = (deviceId: string) => deviceId || 'default';
+
+export const toTrackConstraints = (profile: AudioProfile): MediaTrackConstraints => ({
+  channelCount: { ideal: profile.channelCount },
+  sampleRate: { ideal: profile.sampleRate },
+  echoCancellation: profile.echoCancellation,
+  noiseSuppression: profile.noiseSuppression,
+  autoGainControl: profile.autoGainControl,
+});
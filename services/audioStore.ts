@@ -0,0 +1,92 @@
+import { Note } from '../types';
+import { STORES, withStore } from './db';
+import { getVaultKey, encryptBytes, decryptBytes } from './vault';
+
+// Áudios ficam no IndexedDB (chave = id da nota), pois localStorage não comporta blobs.
+// Cada continuação da gravação fica num registro à parte (chave = "<id da nota>:<trecho>").
+
+interface EncryptedAudio {
+  encrypted: true;
+  mimeType: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export type AudioRecord = Blob | EncryptedAudio;
+
+const isEncrypted = (record: AudioRecord): record is EncryptedAudio => !(record instanceof Blob);
+
+export const toRecord = async (blob: Blob, key: CryptoKey | null): Promise<AudioRecord> => {
+  if (!key) return blob;
+  const { iv, data } = await encryptBytes(key, await blob.arrayBuffer());
+  return { encrypted: true, mimeType: blob.type, iv, data };
+};
+
+export const fromRecord = async (record: AudioRecord, key: CryptoKey | null): Promise<Blob> => {
+  if (!isEncrypted(record)) return record;
+  if (!key) throw new Error("Cofre bloqueado: não é possível ler o áudio.");
+  return new Blob([await decryptBytes(key, record)], { type: record.mimeType });
+};
+
+const putRecord = (noteId: string, record: AudioRecord) =>
+  withStore(STORES.AUDIO, 'readwrite', store => store.put(record, noteId));
+
+const getRecord = (noteId: string) =>
+  withStore<AudioRecord | undefined>(STORES.AUDIO, 'readonly', store => store.get(noteId));
+
+export const saveAudio = async (noteId: string, blob: Blob): Promise<void> => {
+  await putRecord(noteId, await toRecord(blob, getVaultKey()));
+};
+
+export const getAudio = async (noteId: string): Promise<Blob | null> => {
+  const record = await getRecord(noteId);
+  return record ? fromRecord(record, getVaultKey()) : null;
+};
+
+export const deleteAudio = async (noteId: string): Promise<void> => {
+  await withStore(STORES.AUDIO, 'readwrite', store => store.delete(noteId));
+};
+
+export interface AudioPart {
+  audioId: string;
+  offsetSeconds: number;
+  mimeType?: string;
+}
+
+export const segmentAudioId = (noteId: string, index: number) => `${noteId}:${index}`;
+
+// Áudios da nota na ordem de reprodução
+export const getAudioParts = (note: Pick<Note, 'id' | 'audioMimeType' | 'audioSegments'>): AudioPart[] => [
+  { audioId: note.id, offsetSeconds: 0, mimeType: note.audioMimeType },
+  ...(note.audioSegments ?? []).map(segment => ({
+    audioId: segmentAudioId(note.id, segment.index),
+    offsetSeconds: segment.offsetSeconds,
+    mimeType: segment.mimeType,
+  })),
+];
+
+export const deleteNoteAudio = async (note: Pick<Note, 'id' | 'audioSegments'>): Promise<void> => {
+  for (const { audioId } of getAudioParts(note)) await deleteAudio(audioId);
+};
+
+export const listAudioIds = async (): Promise<string[]> => {
+  const keys = await withStore(STORES.AUDIO, 'readonly', store => store.getAllKeys());
+  return keys.map(String);
+};
+
+// Remove áudios que não pertencem a nenhuma nota nem rascunho (ex: gravação abandonada antes de salvar)
+export const deleteOrphanedAudio = async (keepIds: Set<string>): Promise<number> => {
+  const orphans = (await listAudioIds()).filter(id => !keepIds.has(id));
+  for (const id of orphans) await deleteAudio(id);
+  return orphans.length;
+};
+
+// Regrava todos os áudios ao ativar, trocar a senha ou desativar o cofre (null = sem criptografia)
+export const reencryptAllAudio = async (fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> => {
+  for (const id of await listAudioIds()) {
+    const record = await getRecord(id);
+    if (!record) continue;
+    const blob = await fromRecord(record, fromKey);
+    await putRecord(id, await toRecord(blob, toKey));
+  }
+};
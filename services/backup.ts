@@ -0,0 +1,139 @@
+import { Note, PersistedNote } from '../types';
+import { getAudio, getAudioParts, segmentAudioId } from './audioStore';
+import { migratePayload, isValidNote, SCHEMA_VERSION, DEFAULT_LANGUAGE } from './storage';
+import { blobToBase64, base64ToBlob } from '../utils/blob';
+
+const BACKUP_FORMAT = 'voznote-backup';
+const BACKUP_VERSION = 1;
+
+export type ImportStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersion: number;
+  notes: PersistedNote[];
+  audio: Record<string, { mimeType: string; data: string }>;
+}
+
+export interface BackupContents {
+  notes: PersistedNote[];
+  audio: Record<string, Blob>;
+}
+
+export interface MergeResult {
+  notes: Note[];
+  audioToSave: { id: string; blob: Blob }[];
+  imported: number;
+  skipped: number;
+}
+
+export const createBackup = async (notes: Note[]): Promise<Blob> => {
+  const audio: BackupFile['audio'] = {};
+  for (const note of notes) {
+    for (const part of getAudioParts(note)) {
+      const blob = await getAudio(part.audioId);
+      if (!blob) continue;
+      audio[part.audioId] = {
+        mimeType: blob.type || part.mimeType || 'audio/webm',
+        data: await blobToBase64(blob),
+      };
+    }
+  }
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    notes: notes.map(({ audioUrl, ...rest }) => rest),
+    audio,
+  };
+  return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+};
+
+export const readBackup = async (file: Blob): Promise<BackupContents> => {
+  let data: any;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error("Arquivo de backup ilegível.");
+  }
+  if (data?.format !== BACKUP_FORMAT) {
+    throw new Error("Este arquivo não é um backup do VozNote.");
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error("Backup criado por uma versão mais nova do VozNote.");
+  }
+
+  // As notas do backup passam pelas mesmas migrações do armazenamento local
+  const { notes } = migratePayload({ version: data.schemaVersion, notes: data.notes });
+  const audio: Record<string, Blob> = {};
+  for (const [id, entry] of Object.entries<any>(data.audio ?? {})) {
+    if (typeof entry?.data === 'string') {
+      audio[id] = base64ToBlob(entry.data, entry.mimeType || 'audio/webm');
+    }
+  }
+
+  return {
+    notes: notes.filter(isValidNote).map(note => ({ ...note, language: note.language || DEFAULT_LANGUAGE })),
+    audio,
+  };
+};
+
+export const findCollisions = (existing: Note[], incoming: PersistedNote[]): string[] => {
+  const ids = new Set(existing.map(n => n.id));
+  return incoming.filter(n => ids.has(n.id)).map(n => n.id);
+};
+
+export const mergeBackup = (
+  existing: Note[],
+  contents: BackupContents,
+  strategy: ImportStrategy
+): MergeResult => {
+  const byId = new Map(existing.map(n => [n.id, n]));
+  const merged = [...existing];
+  const audioToSave: MergeResult['audioToSave'] = [];
+  let imported = 0;
+  let skipped = 0;
+
+  // Áudio principal e trechos das continuações, regravados com as chaves do id que a nota terá
+  const queueAudio = (note: PersistedNote, id: string) => {
+    const main = contents.audio[note.id];
+    if (main) audioToSave.push({ id, blob: main });
+    for (const { index } of note.audioSegments ?? []) {
+      const blob = contents.audio[segmentAudioId(note.id, index)];
+      if (blob) audioToSave.push({ id: segmentAudioId(id, index), blob });
+    }
+  };
+
+  for (const note of contents.notes) {
+    if (!byId.has(note.id)) {
+      merged.push(note);
+      queueAudio(note, note.id);
+      imported++;
+      continue;
+    }
+
+    if (strategy === 'skip') {
+      skipped++;
+    } else if (strategy === 'overwrite') {
+      const index = merged.findIndex(n => n.id === note.id);
+      // Atualiza o carimbo para que a versão restaurada prevaleça na sincronização entre abas
+      merged[index] = { ...note, updatedAt: new Date().toISOString() };
+      queueAudio(note, note.id);
+      imported++;
+    } else {
+      // A cópia é uma nota nova: sem o vínculo de sincronização do original
+      const { sync, ...copy } = note;
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      merged.push({ ...copy, id, title: `${note.title} (cópia)` });
+      queueAudio(note, id);
+      imported++;
+    }
+  }
+
+  const byDate = (a: Note, b: Note) => b.createdAt.localeCompare(a.createdAt);
+  return { notes: merged.sort(byDate), audioToSave, imported, skipped };
+};
@@ -0,0 +1,52 @@
+import { AudioInput } from './audioInput';
+
+// Detecta quando o sistema interrompe a captura (microfone desconectado, chamada, aba em segundo plano)
+
+export type InterruptionReason = 'ended' | 'system-ended' | 'muted' | 'suspended' | 'error';
+
+interface CaptureHandlers {
+  onInterrupt: (reason: InterruptionReason) => void;
+  onRestore: () => void;
+}
+
+// A mixagem com o áudio do sistema passa pelo AudioContext; sem ela, o gravador lê o microfone direto
+const dependsOnContext = (input: AudioInput) => !!input.systemStream;
+
+export const checkCapture = (input: AudioInput, recorder: MediaRecorder): InterruptionReason | null => {
+  const micTracks = input.micStream.getAudioTracks();
+  if (micTracks.some(t => t.readyState === 'ended')) return 'ended';
+  if (recorder.state === 'inactive') return 'error';
+  if (micTracks.some(t => t.muted)) return 'muted';
+  if (dependsOnContext(input) && input.context.state !== 'running') return 'suspended';
+  return null;
+};
+
+export const watchCapture = (input: AudioInput, recorder: MediaRecorder, { onInterrupt, onRestore }: CaptureHandlers): (() => void) => {
+  const cleanups: (() => void)[] = [];
+  const listen = (target: EventTarget, type: string, handler: () => void) => {
+    target.addEventListener(type, handler);
+    cleanups.push(() => target.removeEventListener(type, handler));
+  };
+
+  input.micStream.getAudioTracks().forEach(track => {
+    listen(track, 'ended', () => onInterrupt('ended'));
+    listen(track, 'mute', () => onInterrupt('muted'));
+    listen(track, 'unmute', onRestore);
+  });
+  input.systemStream?.getAudioTracks().forEach(track => {
+    listen(track, 'ended', () => onInterrupt('system-ended'));
+  });
+
+  listen(input.context, 'statechange', () => {
+    if (input.context.state === 'running') {
+      onRestore();
+    } else if (input.context.state !== 'closed') {
+      // Sem mixagem a gravação não depende do contexto; basta tentar reativar a visualização
+      if (dependsOnContext(input)) onInterrupt('suspended');
+      else input.context.resume().catch(() => {});
+    }
+  });
+  listen(recorder, 'error', () => onInterrupt('error'));
+
+  return () => cleanups.forEach(cleanup => cleanup());
+};
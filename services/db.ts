@@ -0,0 +1,58 @@
+const DB_NAME = 'voznote';
+const DB_VERSION = 2;
+
+export const STORES = {
+  AUDIO: 'audio',
+  RECORDING_SESSIONS: 'recordingSessions',
+  RECORDING_CHUNKS: 'recordingChunks',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error("IndexedDB não suportado neste navegador."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.AUDIO)) {
+        db.createObjectStore(STORES.AUDIO);
+      }
+      if (!db.objectStoreNames.contains(STORES.RECORDING_SESSIONS)) {
+        db.createObjectStore(STORES.RECORDING_SESSIONS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.RECORDING_CHUNKS)) {
+        const chunks = db.createObjectStore(STORES.RECORDING_CHUNKS, { autoIncrement: true });
+        chunks.createIndex('sessionId', 'sessionId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Permite nova tentativa caso a abertura falhe (ex: modo privado)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, mode);
+  return promisifyRequest(run(tx.objectStore(storeName)));
+};
@@ -0,0 +1,67 @@
+import { Note, PersistedNote } from '../types';
+import { sealText, openText, getVaultKey } from './vault';
+
+// Rascunhos da nota em edição, gravados continuamente para sobreviver a fechamentos e travamentos
+
+const DRAFTS_KEY = 'voznote_drafts';
+
+export interface Draft {
+  note: PersistedNote;
+  savedAt: string; // ISO 8601
+  isNew: boolean; // nota recém-transcrita que ainda não foi salva na biblioteca
+}
+
+type DraftMap = Record<string, Draft>;
+
+const readDrafts = async (): Promise<DraftMap> => {
+  const raw = localStorage.getItem(DRAFTS_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(await openText(raw));
+  } catch (e) {
+    console.error("Erro ao ler rascunhos", e);
+    return {};
+  }
+};
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+const updateDrafts = (change: (drafts: DraftMap) => void, key: CryptoKey | null = getVaultKey()): Promise<void> => {
+  const write = writeQueue.then(async () => {
+    const drafts = await readDrafts();
+    change(drafts);
+    if (Object.keys(drafts).length === 0) localStorage.removeItem(DRAFTS_KEY);
+    else localStorage.setItem(DRAFTS_KEY, await sealText(JSON.stringify(drafts), key));
+  });
+  writeQueue = write.catch(err => console.error("Erro ao salvar rascunho", err));
+  return write;
+};
+
+export const loadDrafts = async (): Promise<Draft[]> => {
+  await writeQueue;
+  return Object.values(await readDrafts()).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+// Falhas já são registradas pela fila; rascunhos não interrompem a edição
+export const saveDraft = (note: Note, isNew: boolean) => {
+  const { audioUrl, ...rest } = note;
+  return updateDrafts(drafts => {
+    drafts[note.id] = { note: rest, savedAt: new Date().toISOString(), isNew };
+  }).catch(() => {});
+};
+
+export const discardDraft = (id: string) => updateDrafts(drafts => { delete drafts[id]; }).catch(() => {});
+
+// Regrava os rascunhos com a chave informada (após ativar ou desativar o cofre)
+export const replaceDrafts = (list: Draft[], key?: CryptoKey | null) => updateDrafts(drafts => {
+  Object.keys(drafts).forEach(id => delete drafts[id]);
+  list.forEach(draft => { drafts[draft.note.id] = draft; });
+}, key);
+
+export const hasUnsavedChanges = (note: Note, saved: Note | undefined): boolean => {
+  if (!saved) return true;
+  return note.title !== saved.title ||
+    note.summary !== saved.summary ||
+    note.transcription !== saved.transcription ||
+    JSON.stringify(note.tags) !== JSON.stringify(saved.tags);
+};
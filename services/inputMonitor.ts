@@ -0,0 +1,42 @@
+import { InputIssue } from '../types';
+import { measureLevel, createLevelBuffer, toDecibels, AudioLevel } from '../utils/audioLevel';
+
+// Monitora o nível de entrada durante a gravação para avisar sobre microfone mudo ou distorção
+
+export type InputWarning = InputIssue['type'];
+
+export interface InputLevelUpdate extends AudioLevel {
+  warning: InputWarning | null;
+}
+
+const TICK_MS = 100;
+// Bem abaixo do ruído de fundo de uma sala: praticamente só acontece com o microfone mudo
+const MUTE_THRESHOLD_DB = -65;
+const MUTE_WARNING_MS = 10000;
+const CLIP_LEVEL = 0.99;
+// Mantém o aviso de distorção visível por um tempo após o último pico
+const CLIP_HOLD_MS = 2000;
+
+export const watchInputLevel = (
+  analyser: AnalyserNode,
+  onUpdate: (update: InputLevelUpdate) => void
+): (() => void) => {
+  const buffer = createLevelBuffer(analyser);
+  let mutedSince = Date.now();
+  let lastClipAt = 0;
+
+  const interval = window.setInterval(() => {
+    const level = measureLevel(analyser, buffer);
+    const now = Date.now();
+    if (toDecibels(level.rms) > MUTE_THRESHOLD_DB) mutedSince = now;
+    if (level.peak >= CLIP_LEVEL) lastClipAt = now;
+
+    const warning: InputWarning | null =
+      now - lastClipAt < CLIP_HOLD_MS ? 'clipping' :
+      now - mutedSince >= MUTE_WARNING_MS ? 'silent' :
+      null;
+    onUpdate({ ...level, warning });
+  }, TICK_MS);
+
+  return () => clearInterval(interval);
+};
@@ -0,0 +1,35 @@
+// Formatos de gravação: cada navegador suporta contêineres diferentes no MediaRecorder
+// (Chrome/Firefox gravam WebM ou Ogg com Opus, Safari/iOS grava MP4 com AAC)
+
+const RECORDING_MIME_CANDIDATES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+  'audio/webm',
+];
+
+export const FALLBACK_MIME_TYPE = 'audio/webm';
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+};
+
+// Primeiro formato suportado; undefined deixa o navegador escolher o padrão dele
+export const pickRecordingMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return RECORDING_MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+// Remove parâmetros como ";codecs=opus", que a API da IA não aceita
+export const baseMimeType = (mimeType: string): string => mimeType.split(';')[0].trim().toLowerCase();
+
+export const extensionForMimeType = (mimeType?: string): string =>
+  EXTENSION_BY_MIME[baseMimeType(mimeType || FALLBACK_MIME_TYPE)] ?? 'webm';
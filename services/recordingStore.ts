@@ -0,0 +1,72 @@
+import { AudioProfileId, InputIssue, PauseInterval, RecordingMarker } from '../types';
+import { STORES, openDB, promisifyRequest, withStore } from './db';
+import { toRecord, fromRecord, AudioRecord } from './audioStore';
+import { getVaultKey } from './vault';
+
+// Trechos da gravação em andamento são gravados a cada timeslice para sobreviver a travamentos
+
+export interface RecordingSession {
+  id: string;
+  startedAt: string; // ISO 8601
+  mimeType: string;
+  durationSeconds: number;
+  pauses: PauseInterval[];
+  markers?: RecordingMarker[];
+  inputIssues?: InputIssue[];
+  audioProfile?: AudioProfileId;
+  noteId?: string; // presente quando a gravação continua uma nota existente
+}
+
+interface ChunkRecord {
+  sessionId: string;
+  index: number;
+  data: AudioRecord;
+}
+
+export const saveSession = async (session: RecordingSession): Promise<void> => {
+  await withStore(STORES.RECORDING_SESSIONS, 'readwrite', store => store.put(session));
+};
+
+export const listSessions = (): Promise<RecordingSession[]> =>
+  withStore<RecordingSession[]>(STORES.RECORDING_SESSIONS, 'readonly', store => store.getAll());
+
+export const appendChunk = async (sessionId: string, index: number, chunk: Blob): Promise<void> => {
+  const record: ChunkRecord = { sessionId, index, data: await toRecord(chunk, getVaultKey()) };
+  await withStore(STORES.RECORDING_CHUNKS, 'readwrite', store => store.add(record));
+};
+
+const getChunkRecords = async (sessionId: string): Promise<ChunkRecord[]> => {
+  const records = await withStore<ChunkRecord[]>(
+    STORES.RECORDING_CHUNKS, 'readonly', store => store.index('sessionId').getAll(sessionId)
+  );
+  return records.sort((a, b) => a.index - b.index);
+};
+
+export const assembleSession = async (session: RecordingSession): Promise<Blob> => {
+  const key = getVaultKey();
+  const parts = await Promise.all((await getChunkRecords(session.id)).map(r => fromRecord(r.data, key)));
+  return new Blob(parts, { type: session.mimeType });
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([STORES.RECORDING_SESSIONS, STORES.RECORDING_CHUNKS], 'readwrite');
+  const chunkKeys = await promisifyRequest(tx.objectStore(STORES.RECORDING_CHUNKS).index('sessionId').getAllKeys(sessionId));
+  chunkKeys.forEach(key => tx.objectStore(STORES.RECORDING_CHUNKS).delete(key));
+  await promisifyRequest(tx.objectStore(STORES.RECORDING_SESSIONS).delete(sessionId));
+};
+
+// Acompanha reencryptAllAudio ao ativar, trocar a senha ou desativar o cofre
+export const reencryptAllChunks = async (fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> => {
+  for (const session of await listSessions()) {
+    const db = await openDB();
+    const store = db.transaction(STORES.RECORDING_CHUNKS, 'readonly').objectStore(STORES.RECORDING_CHUNKS);
+    const keys = await promisifyRequest(store.index('sessionId').getAllKeys(session.id));
+    for (const key of keys) {
+      const record = await withStore<ChunkRecord>(STORES.RECORDING_CHUNKS, 'readonly', s => s.get(key));
+      const blob = await fromRecord(record.data, fromKey);
+      const data = await toRecord(blob, toKey);
+      await withStore(STORES.RECORDING_CHUNKS, 'readwrite', s => s.put({ ...record, data }, key));
+    }
+  }
+};
@@ -0,0 +1,74 @@
+import { Note, NoteRevision, RevisionField } from '../types';
+
+export const REVISION_FIELDS: RevisionField[] = ['title', 'summary', 'transcription'];
+
+// A última saída da IA (original ou continuação) e a revisão mais recente são sempre preservadas
+const MAX_REVISIONS = 50;
+// Cada revisão é uma cópia completa do texto; o limite em caracteres evita estourar a cota do localStorage
+const MAX_REVISION_CHARS = 256 * 1024;
+
+export const getChangedFields = (
+  previous: Pick<Note, RevisionField>,
+  next: Pick<Note, RevisionField>
+): RevisionField[] => REVISION_FIELDS.filter(field => previous[field] !== next[field]);
+
+export const createRevision = (
+  note: Pick<Note, RevisionField>,
+  source: NoteRevision['source'],
+  changedFields: RevisionField[] = REVISION_FIELDS
+): NoteRevision => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: new Date().toISOString(),
+  source,
+  changedFields,
+  title: note.title,
+  summary: note.summary,
+  transcription: note.transcription,
+});
+
+export const getLatestRevision = (note: Note): NoteRevision | undefined => {
+  const revisions = note.revisions ?? [];
+  return revisions[revisions.length - 1];
+};
+
+const isAiOutput = (revision: NoteRevision) => revision.source === 'ai' || revision.source === 'continuation';
+
+// Saída mais recente da IA: depois de uma continuação, ela já inclui os trechos gravados depois
+export const getOriginalRevision = (note: Pick<Note, 'revisions'>): NoteRevision | undefined =>
+  [...(note.revisions ?? [])].reverse().find(isAiOutput);
+
+// Registra uma revisão se o conteúdo mudou em relação à última versão salva
+export const recordRevision = (note: Note, source: NoteRevision['source'] = 'edit'): Note => {
+  const latest = getLatestRevision(note);
+  const changedFields = latest ? getChangedFields(latest, note) : REVISION_FIELDS;
+  if (changedFields.length === 0) return note;
+
+  const revisions = [...(note.revisions ?? []), createRevision(note, source, changedFields)];
+  return { ...note, revisions: trimRevisions(revisions, MAX_REVISIONS, MAX_REVISION_CHARS) };
+};
+
+const revisionSize = (revision: NoteRevision) =>
+  revision.title.length + revision.summary.length + revision.transcription.length;
+
+// Descarta as revisões intermediárias mais antigas até caber nos limites
+const trimRevisions = (revisions: NoteRevision[], maxCount: number, maxChars: number): NoteRevision[] => {
+  const pinned = getOriginalRevision({ revisions });
+  const kept = new Set<NoteRevision>(pinned ? [pinned] : []);
+  let remainingChars = maxChars - (pinned ? revisionSize(pinned) : 0);
+  let others = 0;
+  for (let i = revisions.length - 1; i >= 0; i--) {
+    if (revisions[i] === pinned) continue;
+    const size = revisionSize(revisions[i]);
+    if (others > 0 && (kept.size >= maxCount || size > remainingChars)) break;
+    kept.add(revisions[i]);
+    others++;
+    remainingChars -= size;
+  }
+  return revisions.filter(revision => kept.has(revision));
+};
+
+// Último recurso quando o armazenamento enche: mantém só a última saída da IA e a revisão mais recente
+export const pruneRevisions = (note: Note): Note => {
+  if (!note.revisions || note.revisions.length <= 2) return note;
+  return { ...note, revisions: trimRevisions(note.revisions, 2, 0) };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { stitchPair, stitchTranscripts } from './segmentation';
+
+describe('stitchPair', () => {
+  it('remove as palavras repetidas pela sobreposição', () => {
+    expect(stitchPair(
+      'Hoje vamos falar do orçamento do próximo trimestre',
+      'do orçamento do próximo trimestre e das contratações'
+    )).toBe('Hoje vamos falar do orçamento do próximo trimestre e das contratações');
+  });
+
+  it('ignora maiúsculas e pontuação ao comparar as palavras', () => {
+    expect(stitchPair(
+      'Então, a reunião começa às nove horas.',
+      'Começa às nove horas, e termina ao meio-dia.'
+    )).toBe('Então, a reunião começa às nove horas. e termina ao meio-dia.');
+  });
+
+  it('tolera uma palavra cortada na borda de cada trecho', () => {
+    expect(stitchPair(
+      'precisamos revisar o contrato com o forn',
+      'ecedor revisar o contrato com o fornecedor ainda hoje'
+    )).toBe('precisamos revisar o contrato com o fornecedor ainda hoje');
+  });
+
+  it('não corta nada quando a repetição está no meio dos trechos', () => {
+    const previous = 'eu acho que sim, mas depois conversamos melhor sobre isso';
+    const next = 'Na semana que vem eu acho que sim, vamos fechar a proposta';
+    expect(stitchPair(previous, next)).toBe(`${previous}\n\n${next}`);
+  });
+
+  it('concatena quando poucas palavras coincidem', () => {
+    expect(stitchPair('fim do primeiro trecho', 'do trecho seguinte')).toBe('fim do primeiro trecho\n\ndo trecho seguinte');
+  });
+
+  it('aceita um próximo trecho formado só pela sobreposição', () => {
+    expect(stitchPair('vamos encerrar por aqui hoje', 'encerrar por aqui hoje')).toBe('vamos encerrar por aqui hoje');
+  });
+});
+
+describe('stitchTranscripts', () => {
+  it('une vários trechos em ordem e ignora os vazios', () => {
+    expect(stitchTranscripts([
+      '  primeira parte da conversa sobre o projeto ',
+      '',
+      'conversa sobre o projeto segunda parte da reunião',
+      'parte da reunião terceira parte',
+    ])).toBe('primeira parte da conversa sobre o projeto segunda parte da reunião terceira parte');
+  });
+
+  it('devolve texto vazio sem trechos', () => {
+    expect(stitchTranscripts([])).toBe('');
+  });
+});
@@ -0,0 +1,104 @@
+import { transcribeAudio } from './ai';
+import { decodeAudio, renderMono, encodeInWorker, TARGET_SAMPLE_RATE } from './audioProcessing';
+
+// Gravações longas são divididas em trechos com sobreposição e transcritas uma a uma
+
+// Acima disso a gravação é dividida; transcrições longas demais numa única resposta acabam truncadas
+export const MAX_SINGLE_REQUEST_BYTES = 14 * 1024 * 1024;
+const SEGMENT_SECONDS = 5 * 60;
+const SEGMENT_OVERLAP_SECONDS = 4;
+// Palavras comparadas em cada lado da emenda: 4 s de fala dão cerca de 10 a 15 palavras
+const STITCH_WINDOW_WORDS = 15;
+const MIN_STITCH_MATCH_WORDS = 3;
+// Palavras cortadas ao meio na borda do trecho podem ficar de fora do trecho repetido
+const STITCH_EDGE_SLACK_WORDS = 2;
+
+export type SegmentProgress = (done: number, total: number) => void;
+
+export const splitAudio = async (blob: Blob): Promise<Blob[]> => {
+  // Cada trecho é convertido para mono e codificado por vez, sem manter a gravação inteira em mono na memória
+  const decoded = await decodeAudio(blob, TARGET_SAMPLE_RATE);
+  const segmentLength = SEGMENT_SECONDS * TARGET_SAMPLE_RATE;
+  const overlap = SEGMENT_OVERLAP_SECONDS * TARGET_SAMPLE_RATE;
+  const segments: Blob[] = [];
+
+  for (let start = 0; start < decoded.length; start += segmentLength) {
+    // Cada trecho começa um pouco antes para não cortar palavras na emenda
+    const from = Math.max(0, start - overlap);
+    const to = Math.min(decoded.length, start + segmentLength);
+    segments.push(await encodeInWorker(await renderMono(decoded, from, to)));
+  }
+  return segments;
+};
+
+interface WordSpan {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const wordSpans = (text: string): WordSpan[] =>
+  Array.from(text.matchAll(/\S+/g), m => ({
+    word: m[0].toLowerCase().replace(/[^\p{L}\p{N}]/gu, ''),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+
+// Une duas transcrições vizinhas removendo as palavras repetidas pela sobreposição do áudio.
+// O trecho repetido precisa terminar no fim do anterior e começar no início do próximo;
+// sem isso as duas partes são apenas concatenadas, para que nada seja cortado por engano.
+export const stitchPair = (previous: string, next: string): string => {
+  const prevWords = wordSpans(previous).slice(-STITCH_WINDOW_WORDS);
+  const nextWords = wordSpans(next);
+  const nextWindow = Math.min(nextWords.length, STITCH_WINDOW_WORDS);
+
+  let best = { length: 0, prevEnd: 0, nextEnd: 0 };
+  for (let j = 0; j <= STITCH_EDGE_SLACK_WORDS && j < nextWindow; j++) {
+    for (let i = 0; i < prevWords.length; i++) {
+      let length = 0;
+      while (
+        i + length < prevWords.length &&
+        j + length < nextWindow &&
+        prevWords[i + length].word !== '' &&
+        prevWords[i + length].word === nextWords[j + length].word
+      ) length++;
+      const reachesEnd = i + length >= prevWords.length - STITCH_EDGE_SLACK_WORDS;
+      if (reachesEnd && length > best.length) best = { length, prevEnd: i + length, nextEnd: j + length };
+    }
+  }
+
+  if (best.length < MIN_STITCH_MATCH_WORDS) {
+    return `${previous.trimEnd()}\n\n${next.trimStart()}`;
+  }
+  const head = previous.slice(0, prevWords[best.prevEnd - 1].end);
+  const tail = best.nextEnd < nextWords.length ? next.slice(nextWords[best.nextEnd].start) : '';
+  return `${head} ${tail}`.trimEnd();
+};
+
+export const stitchTranscripts = (parts: string[]): string =>
+  parts
+    .map(part => part.trim())
+    .filter(Boolean)
+    .reduce((combined, part) => combined ? stitchPair(combined, part) : part, '');
+
+export const transcribeInSegments = async (blob: Blob, onProgress?: SegmentProgress): Promise<string> => {
+  if (blob.size <= MAX_SINGLE_REQUEST_BYTES) {
+    onProgress?.(0, 1);
+    const transcription = await transcribeAudio(blob);
+    onProgress?.(1, 1);
+    return transcription;
+  }
+
+  const segments = await splitAudio(blob);
+  const parts: string[] = [];
+  onProgress?.(0, segments.length);
+  for (let i = 0; i < segments.length; i++) {
+    try {
+      parts.push(await transcribeAudio(segments[i]));
+    } catch (error: any) {
+      throw new Error(`Falha no trecho ${i + 1} de ${segments.length}: ${error.message}`);
+    }
+    onProgress?.(i + 1, segments.length);
+  }
+  return stitchTranscripts(parts);
+};
@@ -0,0 +1,65 @@
+import { AudioProfileId } from '../types';
+import { RecordingSource } from './audioInput';
+
+const SETTINGS_KEY = 'voznote_settings';
+
+export interface SyncSettings {
+  endpoint: string; // vazio = sincronização desativada
+  token: string;
+  includeAudio: boolean;
+}
+
+export interface SilenceSettings {
+  autoPause: boolean;
+  autoStopMinutes: number; // 0 = desativado
+  trim: boolean;
+}
+
+export interface AppSettings {
+  trashRetentionDays: number; // 0 = nunca esvaziar automaticamente
+  sync: SyncSettings;
+  audioInputDeviceId: string; // vazio = microfone padrão do sistema
+  audioProfiles: Record<string, AudioProfileId>; // perfil escolhido para cada microfone
+  recordingSource: RecordingSource;
+  silence: SilenceSettings;
+  enhanceSpeech: boolean; // realce de voz aplicado ao áudio enviado para transcrição
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  trashRetentionDays: 30,
+  sync: {
+    endpoint: '',
+    token: '',
+    includeAudio: false,
+  },
+  audioInputDeviceId: '',
+  audioProfiles: {},
+  recordingSource: 'mic',
+  silence: {
+    autoPause: false,
+    autoStopMinutes: 0,
+    trim: true,
+  },
+  enhanceSpeech: false,
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const saved = JSON.parse(raw);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...saved,
+      sync: { ...DEFAULT_SETTINGS.sync, ...saved.sync },
+      silence: { ...DEFAULT_SETTINGS.silence, ...saved.silence },
+    };
+  } catch (e) {
+    console.error("Erro ao carregar configurações", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,86 @@
+import { SILENCE_THRESHOLD_DB } from './voiceActivity';
+
+// Realce de voz para falantes distantes: passa-altas, compressor, noise gate e normalização de volume
+
+const HIGH_PASS_HZ = 90;
+const GATE_FRAME_MS = 10;
+const GATE_ATTENUATION_DB = -18;
+// Suavização do ganho do gate por amostra, evita cliques ao abrir e fechar
+const GATE_ATTACK = 0.02;
+const GATE_RELEASE = 0.0005;
+const TARGET_SPEECH_RMS_DB = -20;
+const MAX_GAIN_DB = 24;
+const PEAK_CEILING = 0.89; // -1 dBFS
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Filtro passa-altas (ruído de mesa, ar-condicionado) e compressor para aproximar falas fortes e fracas
+const filterAndCompress = async (samples: Float32Array, sampleRate: number): Promise<Float32Array> => {
+  const offline = new OfflineAudioContext(1, samples.length, sampleRate);
+  const buffer = offline.createBuffer(1, samples.length, sampleRate);
+  buffer.getChannelData(0).set(samples);
+
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  const highPass = offline.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.frequency.value = HIGH_PASS_HZ;
+  const compressor = offline.createDynamicsCompressor();
+  compressor.threshold.value = -30;
+  compressor.knee.value = 12;
+  compressor.ratio.value = 4;
+  compressor.attack.value = 0.005;
+  compressor.release.value = 0.25;
+
+  source.connect(highPass).connect(compressor).connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+const frameLevels = (samples: Float32Array, frameSize: number): number[] => {
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(samples.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / (end - start)));
+  }
+  return levels;
+};
+
+// Atenua (sem zerar) os trechos abaixo do limiar de silêncio
+const applyNoiseGate = (samples: Float32Array, sampleRate: number, levels: number[]): void => {
+  const frameSize = Math.round(sampleRate * GATE_FRAME_MS / 1000);
+  const threshold = dbToGain(SILENCE_THRESHOLD_DB);
+  const floor = dbToGain(GATE_ATTENUATION_DB);
+  let gain = 1;
+  for (let i = 0; i < samples.length; i++) {
+    const target = levels[Math.floor(i / frameSize)] >= threshold ? 1 : floor;
+    gain += (target - gain) * (target > gain ? GATE_ATTACK : GATE_RELEASE);
+    samples[i] *= gain;
+  }
+};
+
+// Leva o RMS médio dos trechos com fala ao alvo, respeitando o teto de pico
+const normalizeLoudness = (samples: Float32Array, levels: number[]): void => {
+  const threshold = dbToGain(SILENCE_THRESHOLD_DB);
+  const speech = levels.filter(level => level >= threshold);
+  if (speech.length === 0) return;
+
+  const rms = Math.sqrt(speech.reduce((sum, level) => sum + level * level, 0) / speech.length);
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (rms === 0 || peak === 0) return;
+
+  const gain = Math.min(dbToGain(TARGET_SPEECH_RMS_DB) / rms, dbToGain(MAX_GAIN_DB), PEAK_CEILING / peak);
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+};
+
+export const enhanceSpeech = async (samples: Float32Array, sampleRate: number): Promise<Float32Array> => {
+  const processed = await filterAndCompress(samples, sampleRate);
+  const levels = frameLevels(processed, Math.round(sampleRate * GATE_FRAME_MS / 1000));
+  applyNoiseGate(processed, sampleRate, levels);
+  normalizeLoudness(processed, levels);
+  return processed;
+};
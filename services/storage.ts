@@ -0,0 +1,164 @@
+import { Note, PersistedNote } from '../types';
+import { isSealed, sealText, openText, isVaultUnlocked, getVaultKey } from './vault';
+
+export const STORAGE_KEY = 'voznote_data';
+const QUARANTINE_PREFIX = 'voznote_quarantine_';
+
+export const SCHEMA_VERSION = 2;
+export const DEFAULT_LANGUAGE = 'pt-BR';
+
+export interface PersistedPayload {
+  version: number;
+  notes: PersistedNote[];
+}
+
+export interface LoadResult {
+  notes: Note[];
+  quarantineKey?: string;
+  // Os dados originais não puderam ser isolados; gravar por cima os perderia
+  readOnly?: boolean;
+}
+
+// Cada migração recebe o payload na versão N e devolve na versão N + 1
+const migrations: Record<number, (data: any) => any> = {
+  // v1: array sem versão, data em pt-BR ("dd/mm/aaaa") e duração apenas formatada ("mm:ss")
+  1: (data: any[]): PersistedPayload => ({
+    version: 2,
+    notes: data.map((note: any) => {
+      const createdAt = parseLegacyDate(note.id, note.date);
+      return {
+        id: String(note.id),
+        title: note.title ?? '',
+        createdAt,
+        updatedAt: createdAt,
+        durationSeconds: parseLegacyDuration(note.durationFormatted),
+        transcription: note.transcription ?? '',
+        summary: note.summary ?? '',
+        tags: Array.isArray(note.tags) ? note.tags : [],
+        language: DEFAULT_LANGUAGE,
+        audioMimeType: 'audio/webm',
+      };
+    }),
+  }),
+};
+
+const parseLegacyDate = (id: unknown, date: unknown): string => {
+  // Ids antigos são gerados com Date.now(), o que dá a hora exata da gravação
+  const fromId = Number(id);
+  if (Number.isFinite(fromId) && fromId > 0) return new Date(fromId).toISOString();
+
+  const match = typeof date === 'string' ? date.match(/^(\d{2})\/(\d{2})\/(\d{4})$/) : null;
+  if (match) return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1])).toISOString();
+
+  return new Date().toISOString();
+};
+
+const parseLegacyDuration = (formatted: unknown): number => {
+  if (typeof formatted !== 'string') return 0;
+  return formatted.split(':').reduce((total, part) => total * 60 + (Number(part) || 0), 0);
+};
+
+const detectVersion = (data: any): number => {
+  if (Array.isArray(data)) return 1;
+  if (data && typeof data === 'object' && Number.isInteger(data.version)) return data.version;
+  throw new Error("Formato de dados desconhecido.");
+};
+
+export const isValidNote = (note: any): note is PersistedNote => (
+  !!note &&
+  typeof note.id === 'string' &&
+  typeof note.title === 'string' &&
+  typeof note.createdAt === 'string' &&
+  typeof note.updatedAt === 'string' &&
+  typeof note.durationSeconds === 'number' &&
+  typeof note.transcription === 'string' &&
+  typeof note.summary === 'string' &&
+  Array.isArray(note.tags)
+);
+
+export const migratePayload = (data: any): PersistedPayload => {
+  let version = detectVersion(data);
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Versão de dados ${version} mais nova que a suportada (${SCHEMA_VERSION}).`);
+  }
+  while (version < SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`Migração ausente para a versão ${version}.`);
+    data = migrate(data);
+    version = detectVersion(data);
+  }
+  if (!Array.isArray(data.notes)) throw new Error("Lista de notas ausente.");
+  return data;
+};
+
+const quarantine = (notes: Note[], raw: string, reason: string): LoadResult => {
+  const key = `${QUARANTINE_PREFIX}${Date.now()}`;
+  try {
+    localStorage.setItem(key, raw);
+  } catch (e) {
+    console.error("Erro ao isolar dados corrompidos", e);
+    return { notes, readOnly: true };
+  }
+  console.warn(`Dados isolados em "${key}": ${reason}`);
+  return { notes, quarantineKey: key };
+};
+
+export const hasQuarantinedData = (): boolean =>
+  Object.keys(localStorage).some(key => key.startsWith(QUARANTINE_PREFIX));
+
+export const parseNotes = (raw: string | null): LoadResult => {
+  if (!raw) return { notes: [] };
+
+  let payload: PersistedPayload;
+  try {
+    payload = migratePayload(JSON.parse(raw));
+  } catch (e: any) {
+    return quarantine([], raw, e.message);
+  }
+
+  const notes = payload.notes.filter(isValidNote).map(note => ({
+    ...note,
+    language: note.language || DEFAULT_LANGUAGE,
+  }));
+  if (notes.length !== payload.notes.length) {
+    return quarantine(notes, raw, "Notas inválidas descartadas.");
+  }
+  return { notes };
+};
+
+export const loadNotes = async (): Promise<LoadResult> => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw || !isSealed(raw)) return parseNotes(raw);
+
+  if (!isVaultUnlocked()) throw new Error("Cofre bloqueado.");
+  let plain: string;
+  try {
+    plain = await openText(raw);
+  } catch {
+    return quarantine([], raw, "Falha ao descriptografar as notas.");
+  }
+  return parseNotes(plain);
+};
+
+export const serializeNotes = (notes: Note[]): string => {
+  const payload: PersistedPayload = {
+    version: SCHEMA_VERSION,
+    notes: notes.map(({ audioUrl, ...rest }) => rest),
+  };
+  return JSON.stringify(payload);
+};
+
+// Gravações são enfileiradas para que uma criptografia lenta não sobrescreva um estado mais novo
+let writeQueue: Promise<void> = Promise.resolve();
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// A promessa devolvida falha junto com a gravação; a fila segue para as próximas
+export const saveNotes = (notes: Note[], key: CryptoKey | null = getVaultKey()): Promise<void> => {
+  const write = writeQueue.then(async () => {
+    localStorage.setItem(STORAGE_KEY, await sealText(serializeNotes(notes), key));
+  });
+  writeQueue = write.catch(() => {});
+  return write;
+};
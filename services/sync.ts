@@ -0,0 +1,241 @@
+import { Note, PersistedNote } from '../types';
+import { SyncSettings } from './settings';
+import { getAudio, saveAudio, segmentAudioId } from './audioStore';
+import { loadTombstones } from './tabSync';
+
+// Sincronização com servidor próprio (ver server/sync-server.mjs para o protocolo de referência)
+
+const SYNC_STATE_KEY = 'voznote_sync_state';
+
+interface SyncState {
+  cursor: number;
+  lastSyncAt?: string;
+}
+
+interface RemoteEntry {
+  id: string;
+  version: number;
+  deleted: boolean;
+  hasAudio: boolean;
+  audioParts?: number[]; // trechos das continuações já enviados
+  note: PersistedNote | null;
+}
+
+export type RemoteNote = Omit<PersistedNote, 'sync'>;
+
+export interface SyncConflict {
+  local: Note;
+  remote: RemoteNote;
+  remoteVersion: number;
+}
+
+export type ConflictChoice = 'local' | 'remote' | 'both';
+
+export interface SyncResult {
+  updates: Note[];
+  removedIds: string[];
+  conflicts: SyncConflict[];
+  pulled: number;
+  pushed: number;
+}
+
+export const loadSyncState = (): SyncState => {
+  try {
+    return { cursor: 0, ...JSON.parse(localStorage.getItem(SYNC_STATE_KEY) || '{}') };
+  } catch {
+    return { cursor: 0 };
+  }
+};
+
+const saveSyncState = (state: SyncState) => {
+  localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+};
+
+export const isDirty = (note: Note) => !note.sync || note.sync.updatedAt !== note.updatedAt;
+
+const toRemote = (note: Note): RemoteNote => {
+  const { audioUrl, sync, ...rest } = note;
+  return rest;
+};
+
+const fromRemote = (remote: RemoteNote, version: number, current?: Note, audioParts = current?.sync?.audioParts): Note => ({
+  ...remote,
+  sync: { version, updatedAt: remote.updatedAt, audioParts },
+  ...(current?.audioUrl ? { audioUrl: current.audioUrl } : {}),
+});
+
+const sameContent = (local: Note, remote: RemoteNote) =>
+  JSON.stringify(toRemote({ ...local, updatedAt: '' })) === JSON.stringify({ ...remote, updatedAt: '' });
+
+const request = async (config: SyncSettings, path: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  if (config.token) headers.set('Authorization', `Bearer ${config.token}`);
+  let response: Response;
+  try {
+    response = await fetch(`${config.endpoint.replace(/\/+$/, '')}${path}`, { ...init, headers });
+  } catch {
+    throw new Error("Servidor de sincronização inacessível.");
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error("Token de sincronização inválido.");
+  }
+  if (!response.ok && response.status !== 409) {
+    throw new Error(`Falha na sincronização (HTTP ${response.status}).`);
+  }
+  return response;
+};
+
+const audioPath = (noteId: string, part: number) =>
+  `/notes/${encodeURIComponent(noteId)}/audio${part ? `/${part}` : ''}`;
+
+// Partes do áudio (0 = principal, demais = trechos das continuações) com a chave local e o caminho no servidor
+const audioTransfers = (noteId: string, parts: number[]) => parts.map(part => ({
+  part,
+  audioId: part ? segmentAudioId(noteId, part) : noteId,
+  path: audioPath(noteId, part),
+}));
+
+const serverAudioParts = (entry: RemoteEntry) => [...(entry.hasAudio ? [0] : []), ...(entry.audioParts ?? [])];
+
+const localAudioParts = (note: Note) => [0, ...(note.audioSegments ?? []).map(segment => segment.index)];
+
+const jsonBody = (body: unknown): RequestInit => ({
+  body: JSON.stringify(body),
+  headers: { 'Content-Type': 'application/json' },
+});
+
+export const syncLibrary = async (notes: Note[], config: SyncSettings): Promise<SyncResult> => {
+  const state = loadSyncState();
+  const byId = new Map(notes.map(n => [n.id, n]));
+  const updates = new Map<string, Note>();
+  const removedIds: string[] = [];
+  const conflicts: SyncConflict[] = [];
+  const audioToDownload: { audioId: string; path: string }[] = [];
+  let pulled = 0;
+  let pushed = 0;
+
+  // 1. Recebe o que mudou no servidor desde a última sincronização
+  const pull = await request(config, `/notes?since=${state.cursor}`);
+  const { cursor, notes: entries } = await pull.json() as { cursor: number; notes: RemoteEntry[] };
+
+  for (const entry of entries) {
+    const local = byId.get(entry.id);
+    if (local?.sync?.version === entry.version) {
+      // Mesma versão: só o áudio pode ter chegado depois da nota
+      audioToDownload.push(...audioTransfers(entry.id, serverAudioParts(entry)));
+      const synced = { ...local, sync: { ...local.sync, audioParts: serverAudioParts(entry) } };
+      updates.set(entry.id, synced);
+      byId.set(entry.id, synced);
+      continue;
+    }
+
+    if (entry.deleted || !entry.note) {
+      if (local && !isDirty(local)) {
+        removedIds.push(entry.id);
+        byId.delete(entry.id);
+        pulled++;
+      }
+      continue;
+    }
+
+    if (!local || !isDirty(local) || sameContent(local, entry.note)) {
+      const merged = fromRemote(entry.note, entry.version, local, serverAudioParts(entry));
+      updates.set(entry.id, merged);
+      byId.set(entry.id, merged);
+      audioToDownload.push(...audioTransfers(entry.id, serverAudioParts(entry)));
+      pulled++;
+    } else {
+      conflicts.push({ local, remote: entry.note, remoteVersion: entry.version });
+    }
+  }
+
+  // 2. Propaga exclusões definitivas feitas localmente
+  for (const [id, deletedAt] of Object.entries(loadTombstones())) {
+    if (!state.lastSyncAt || deletedAt > state.lastSyncAt) {
+      await request(config, `/notes/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    }
+  }
+
+  // 3. Envia as notas alteradas localmente, usando a versão conhecida como base
+  const conflictIds = new Set(conflicts.map(c => c.local.id));
+  for (const note of byId.values()) {
+    if (!isDirty(note) || conflictIds.has(note.id)) continue;
+
+    const response = await request(config, `/notes/${encodeURIComponent(note.id)}`, {
+      method: 'PUT',
+      ...jsonBody({ note: toRemote(note), baseVersion: note.sync?.version ?? null }),
+    });
+    const body = await response.json() as { version: number; note?: RemoteNote };
+
+    if (response.status === 409 && body.note) {
+      if (sameContent(note, body.note)) {
+        updates.set(note.id, fromRemote(body.note, body.version, note));
+      } else {
+        conflicts.push({ local: note, remote: body.note, remoteVersion: body.version });
+      }
+      continue;
+    }
+
+    // Só envia as partes do áudio que o servidor ainda não tem; o áudio não muda ao editar a nota
+    const uploaded = new Set(note.sync?.audioParts ?? []);
+    if (config.includeAudio) {
+      const missing = localAudioParts(note).filter(part => !uploaded.has(part));
+      for (const { part, audioId, path } of audioTransfers(note.id, missing)) {
+        const audio = await getAudio(audioId);
+        if (!audio) continue;
+        await request(config, path, {
+          method: 'PUT',
+          body: audio,
+          headers: { 'Content-Type': audio.type || 'application/octet-stream' },
+        });
+        uploaded.add(part);
+      }
+    }
+    updates.set(note.id, { ...note, sync: { version: body.version, updatedAt: note.updatedAt, audioParts: [...uploaded] } });
+    pushed++;
+  }
+
+  // 4. Baixa áudios das notas recebidas que ainda não existem neste aparelho
+  if (config.includeAudio) {
+    for (const { audioId, path } of audioToDownload) {
+      if (await getAudio(audioId)) continue;
+      const response = await request(config, path);
+      await saveAudio(audioId, await response.blob());
+    }
+  }
+
+  saveSyncState({ cursor, lastSyncAt: new Date().toISOString() });
+  return { updates: [...updates.values()], removedIds, conflicts, pulled, pushed };
+};
+
+// Aplica o resultado sem descartar edições feitas enquanto a sincronização rodava
+export const applySyncResult = (notes: Note[], result: SyncResult): Note[] => {
+  const updates = new Map(result.updates.map(n => [n.id, n]));
+  const next = notes
+    .filter(n => !result.removedIds.includes(n.id))
+    .map(n => {
+      const update = updates.get(n.id);
+      updates.delete(n.id);
+      return update && update.updatedAt >= n.updatedAt ? { ...update, audioUrl: n.audioUrl } : n;
+    });
+  return [...updates.values(), ...next].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const resolveConflict = (conflict: SyncConflict, choice: ConflictChoice): Note[] => {
+  const { local, remote, remoteVersion } = conflict;
+  const remoteNote = fromRemote(remote, remoteVersion, local);
+
+  if (choice === 'remote') return [remoteNote];
+
+  if (choice === 'local') {
+    // Passa a versão do servidor como base para a próxima sincronização sobrescrevê-la
+    const updatedAt = new Date().toISOString();
+    return [{ ...local, updatedAt, sync: { version: remoteVersion, updatedAt: local.sync?.updatedAt ?? '' } }];
+  }
+
+  const { sync, ...copy } = local;
+  return [
+    remoteNote,
+    { ...copy, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, title: `${local.title} (local)` },
+  ];
+};
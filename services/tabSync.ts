@@ -0,0 +1,72 @@
+import { Note } from '../types';
+import { STORAGE_KEY } from './storage';
+
+// Sincronização entre abas: cada aba mescla as alterações das outras nota a nota (vence o updatedAt mais recente)
+
+const TOMBSTONES_KEY = 'voznote_tombstones';
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+export type Tombstones = Record<string, string>; // id da nota -> momento da exclusão definitiva (ISO 8601)
+
+export const loadTombstones = (): Tombstones => {
+  try {
+    return JSON.parse(localStorage.getItem(TOMBSTONES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Registra exclusões definitivas para que outras abas não ressuscitem as notas ao mesclar
+export const addTombstones = (ids: string[]) => {
+  const now = Date.now();
+  const tombstones = loadTombstones();
+  for (const [id, at] of Object.entries(tombstones)) {
+    if (now - new Date(at).getTime() > TOMBSTONE_TTL_MS) delete tombstones[id];
+  }
+  const deletedAt = new Date(now).toISOString();
+  ids.forEach(id => { tombstones[id] = deletedAt; });
+  localStorage.setItem(TOMBSTONES_KEY, JSON.stringify(tombstones));
+};
+
+// Notas restauradas de um backup voltam a existir: sem isso as outras abas as removeriam de novo
+export const clearTombstones = (ids: string[]) => {
+  const tombstones = loadTombstones();
+  const cleared = ids.filter(id => id in tombstones);
+  if (cleared.length === 0) return;
+  cleared.forEach(id => { delete tombstones[id]; });
+  localStorage.setItem(TOMBSTONES_KEY, JSON.stringify(tombstones));
+};
+
+// Retorna a própria lista local quando nada mudou, evitando regravações em cascata entre abas
+export const mergeNotes = (local: Note[], remote: Note[], tombstones: Tombstones = {}): Note[] => {
+  const byId = new Map(local.map(n => [n.id, n]));
+  let changed = false;
+
+  for (const note of remote) {
+    const current = byId.get(note.id);
+    if (!current || note.updatedAt > current.updatedAt) {
+      byId.set(note.id, current?.audioUrl ? { ...note, audioUrl: current.audioUrl } : note);
+      changed = true;
+    }
+  }
+
+  for (const [id, deletedAt] of Object.entries(tombstones)) {
+    const note = byId.get(id);
+    if (note && note.updatedAt <= deletedAt) {
+      byId.delete(id);
+      changed = true;
+    }
+  }
+
+  if (!changed) return local;
+  return [...byId.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// O evento "storage" só dispara nas outras abas, nunca na que gravou
+export const subscribeToNoteChanges = (onChange: () => void): (() => void) => {
+  const handler = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY || e.key === TOMBSTONES_KEY) onChange();
+  };
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+};
@@ -0,0 +1,18 @@
+import { Note } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (note: Note) => !!note.deletedAt;
+
+export const daysUntilPurge = (note: Note, retentionDays: number, now = Date.now()): number | null => {
+  if (!note.deletedAt || retentionDays <= 0) return null;
+  const elapsed = now - new Date(note.deletedAt).getTime();
+  return Math.max(0, Math.ceil(retentionDays - elapsed / DAY_MS));
+};
+
+export const findExpired = (notes: Note[], retentionDays: number, now = Date.now()): string[] => {
+  if (retentionDays <= 0) return [];
+  return notes
+    .filter(n => n.deletedAt && now - new Date(n.deletedAt).getTime() >= retentionDays * DAY_MS)
+    .map(n => n.id);
+};
@@ -0,0 +1,174 @@
+// Cofre opcional: criptografa notas e áudios com AES-GCM usando chave derivada da senha (PBKDF2)
+
+const VAULT_KEY = 'voznote_vault';
+const PBKDF2_ITERATIONS = 310000;
+
+// A chave dos dados é aleatória e fica guardada cifrada pela chave da senha, então trocar a senha não exige regravar nada
+interface VaultMeta {
+  version: 2;
+  salt: string;
+  iterations: number;
+  wrappedKey: EncryptedPayload;
+}
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+export interface EncryptedBytes {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+let activeKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const readMeta = (): VaultMeta | null => {
+  const raw = localStorage.getItem(VAULT_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const importDataKey = (raw: ArrayBuffer): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', raw, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+export const encryptBytes = async (key: CryptoKey, data: BufferSource): Promise<EncryptedBytes> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+};
+
+export const decryptBytes = (key: CryptoKey, payload: EncryptedBytes): Promise<ArrayBuffer> => {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data);
+};
+
+export const encryptText = async (key: CryptoKey, text: string): Promise<EncryptedPayload> => {
+  const { iv, data } = await encryptBytes(key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const decryptText = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+  const data = await decryptBytes(key, { iv: fromBase64(payload.iv), data: fromBase64(payload.data).buffer });
+  return new TextDecoder().decode(data);
+};
+
+// Envelope gravado no localStorage quando o cofre está ativo; sem cofre o texto é gravado puro
+export const isSealed = (raw: string): boolean => {
+  try {
+    return JSON.parse(raw)?.encrypted === true;
+  } catch {
+    return false;
+  }
+};
+
+// Sem chave (null) o texto é gravado puro
+export const sealText = async (plain: string, key: CryptoKey | null = activeKey): Promise<string> => {
+  if (!key) return plain;
+  return JSON.stringify({ encrypted: true, ...(await encryptText(key, plain)) });
+};
+
+export const openText = async (raw: string): Promise<string> => {
+  if (!isSealed(raw)) return raw;
+  if (!activeKey) throw new Error("Cofre bloqueado.");
+  return decryptText(activeKey, JSON.parse(raw) as EncryptedPayload);
+};
+
+const buildMeta = async (passphrase: string, dataKey: ArrayBuffer): Promise<VaultMeta> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const wrappingKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const { iv, data } = await encryptBytes(wrappingKey, dataKey);
+  return {
+    version: 2,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    wrappedKey: { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) },
+  };
+};
+
+// Devolve os bytes da chave dos dados; AES-GCM falha na autenticação quando a senha está errada
+const readDataKey = async (passphrase: string, meta: VaultMeta): Promise<ArrayBuffer> => {
+  const wrappingKey = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  const { iv, data } = meta.wrappedKey;
+  try {
+    return await decryptBytes(wrappingKey, { iv: fromBase64(iv), data: fromBase64(data).buffer });
+  } catch {
+    throw new Error("Senha incorreta.");
+  }
+};
+
+const requireMeta = (): VaultMeta => {
+  const meta = readMeta();
+  if (!meta) throw new Error("Cofre não configurado.");
+  return meta;
+};
+
+export const isVaultEnabled = () => readMeta() !== null;
+
+export const isVaultUnlocked = () => activeKey !== null;
+
+export const getVaultKey = () => activeKey;
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  activeKey = await importDataKey(await readDataKey(passphrase, requireMeta()));
+};
+
+export const lockVault = () => {
+  activeKey = null;
+};
+
+// A configuração é gravada antes de criptografar: notas e áudios ainda sem criptografia continuam legíveis com o cofre ativo
+export const createVault = async (passphrase: string): Promise<CryptoKey> => {
+  if (isVaultEnabled()) throw new Error("O cofre já está ativo.");
+  const dataKey = crypto.getRandomValues(new Uint8Array(32)).buffer;
+  const meta = await buildMeta(passphrase, dataKey);
+  const key = await importDataKey(dataKey);
+  localStorage.setItem(VAULT_KEY, JSON.stringify(meta));
+  activeKey = key;
+  return key;
+};
+
+// Só a chave dos dados é cifrada de novo; notas e áudios não mudam
+export const changeVaultPassphrase = async (current: string, next: string): Promise<void> => {
+  const dataKey = await readDataKey(current, requireMeta());
+  const meta = await buildMeta(next, dataKey);
+  localStorage.setItem(VAULT_KEY, JSON.stringify(meta));
+  activeKey = await importDataKey(dataKey);
+};
+
+export const verifyVaultPassphrase = async (passphrase: string): Promise<CryptoKey> =>
+  importDataKey(await readDataKey(passphrase, requireMeta()));
+
+// Chamado só depois que notas e áudios foram regravados sem criptografia (ver verifyVaultPassphrase)
+export const removeVault = () => {
+  localStorage.removeItem(VAULT_KEY);
+  activeKey = null;
+};
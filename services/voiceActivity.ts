@@ -0,0 +1,31 @@
+import { measureLevel, createLevelBuffer, toDecibels } from '../utils/audioLevel';
+
+// Detecção simples de atividade de voz sobre o analisador da captura
+
+export const SILENCE_THRESHOLD_DB = -50;
+const TICK_MS = 100;
+// Ticks consecutivos acima do limiar para considerar voz (ignora estalos isolados)
+const VOICE_ATTACK_TICKS = 2;
+
+export const watchVoiceActivity = (
+  analyser: AnalyserNode,
+  onUpdate: (silentForMs: number) => void,
+  thresholdDb = SILENCE_THRESHOLD_DB
+): (() => void) => {
+  const buffer = createLevelBuffer(analyser);
+  let silentSince = Date.now();
+  let loudTicks = 0;
+
+  const interval = window.setInterval(() => {
+    const { rms } = measureLevel(analyser, buffer);
+    if (toDecibels(rms) > thresholdDb) {
+      loudTicks++;
+      if (loudTicks >= VOICE_ATTACK_TICKS) silentSince = Date.now();
+    } else {
+      loudTicks = 0;
+    }
+    onUpdate(Date.now() - silentSince);
+  }, TICK_MS);
+
+  return () => clearInterval(interval);
+};
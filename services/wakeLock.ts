@@ -0,0 +1,40 @@
+// Mantém a tela ligada durante a gravação; o navegador libera o bloqueio sozinho quando a página fica oculta
+
+let sentinel: WakeLockSentinel | null = null;
+// Pedido em andamento: evita pedidos duplicados e deixa a liberação esperar por ele
+let pending: Promise<void> | null = null;
+// Falso depois de releaseWakeLock, para que um pedido que termine depois seja liberado na hora
+let wanted = false;
+
+export const isWakeLockSupported = () => typeof navigator !== 'undefined' && 'wakeLock' in navigator;
+
+export const requestWakeLock = (): Promise<void> => {
+  wanted = true;
+  if (!isWakeLockSupported() || (sentinel && !sentinel.released)) return Promise.resolve();
+  if (pending) return pending;
+
+  pending = (async () => {
+    try {
+      const lock = await navigator.wakeLock.request('screen');
+      lock.addEventListener('release', () => { if (sentinel === lock) sentinel = null; });
+      if (wanted) sentinel = lock;
+      else await lock.release();
+    } catch (err) {
+      // Economia de bateria ou página oculta podem recusar o pedido
+      console.warn("Não foi possível manter a tela ligada", err);
+    } finally {
+      pending = null;
+    }
+  })();
+  return pending;
+};
+
+export const releaseWakeLock = async (): Promise<void> => {
+  wanted = false;
+  await pending;
+  // Um novo pedido feito enquanto esperava prevalece sobre esta liberação
+  if (wanted) return;
+  const active = sentinel;
+  sentinel = null;
+  await active?.release().catch(() => {});
+};
@@ -3,21 +3,89 @@ export enum AppView {
   LIST = 'LIST',
   RECORD = 'RECORD',
   EDIT = 'EDIT',
+  SETTINGS = 'SETTINGS',
+  TRASH = 'TRASH',
 }
 
 export interface Note {
   id: string;
   title: string;
-  date: string;
-  durationFormatted: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  durationSeconds: number;
   transcription: string;
   summary: string;
   tags: string[];
+  language: string;
+  audioMimeType?: string;
+  audioSegments?: AudioSegment[];
+  deletedAt?: string; // ISO 8601, presente quando a nota está na lixeira
+  revisions?: NoteRevision[];
+  sync?: NoteSyncInfo;
+  pauses?: PauseInterval[];
+  markers?: RecordingMarker[];
+  inputIssues?: InputIssue[];
+  audioProfile?: AudioProfileId;
   audioUrl?: string; // URL temporária do blob de áudio
 }
 
+export type AudioProfileId = 'voice' | 'meeting' | 'hifi';
+
+// Pausa feita durante a gravação; "offsetSeconds" é a posição no áudio gravado
+export interface PauseInterval {
+  offsetSeconds: number;
+  startedAt: string; // ISO 8601
+  durationSeconds: number;
+  auto?: boolean; // pausa automática por silêncio
+}
+
+// Marcador criado durante a gravação; sem "text" é apenas um destaque do momento
+export interface RecordingMarker {
+  id: string;
+  offsetSeconds: number; // posição no áudio gravado
+  createdAt: string; // ISO 8601
+  text?: string;
+}
+
+// Trecho de áudio gravado ao continuar a nota, tocado em sequência depois do áudio principal
+export interface AudioSegment {
+  index: number; // o áudio fica no IndexedDB com a chave "<id da nota>:<index>"
+  offsetSeconds: number; // início do trecho na linha do tempo da nota
+  mimeType?: string;
+}
+
+// Problema de captação detectado durante a gravação (microfone mudo ou distorção)
+export interface InputIssue {
+  type: 'silent' | 'clipping';
+  offsetSeconds: number; // posição no áudio gravado
+  durationSeconds: number;
+}
+
+// Estado da nota no servidor de sincronização na última troca bem-sucedida
+export interface NoteSyncInfo {
+  version: number;
+  updatedAt: string; // updatedAt local no momento da sincronização
+  audioParts?: number[]; // áudios que o servidor já tem: 0 é o principal, os demais são trechos das continuações
+}
+
+export type RevisionField = 'title' | 'summary' | 'transcription';
+
+export interface NoteRevision {
+  id: string;
+  createdAt: string; // ISO 8601
+  source: 'ai' | 'continuation' | 'edit' | 'revert'; // continuation: transcrição refeita ao continuar a gravação
+  changedFields: RevisionField[];
+  title: string;
+  summary: string;
+  transcription: string;
+}
+
+// Formato gravado em disco: a URL do blob não sobrevive ao recarregamento
+export type PersistedNote = Omit<Note, 'audioUrl'>;
+
 export enum ProcessingStatus {
   IDLE = 'IDLE',
+  PREPARING = 'PREPARING',
   TRANSCRIBING = 'TRANSCRIBING',
   SUMMARIZING = 'SUMMARIZING',
   COMPLETED = 'COMPLETED',
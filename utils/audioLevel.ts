@@ -0,0 +1,21 @@
+export interface AudioLevel {
+  rms: number; // 0..1
+  peak: number; // 0..1
+}
+
+// Lê o sinal no domínio do tempo do analisador e calcula RMS e pico
+export const measureLevel = (analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): AudioLevel => {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const value = Math.abs(buffer[i]);
+    sum += value * value;
+    if (value > peak) peak = value;
+  }
+  return { rms: Math.sqrt(sum / buffer.length), peak };
+};
+
+export const createLevelBuffer = (analyser: AnalyserNode) => new Float32Array(analyser.fftSize);
+
+export const toDecibels = (value: number) => (value > 0 ? 20 * Math.log10(value) : -Infinity);
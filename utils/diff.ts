@@ -0,0 +1,66 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Acima deste tamanho da tabela LCS, o trecho alterado é mostrado como substituição inteira
+const MAX_LCS_CELLS = 4_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+};
+
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    pushSegment(segments, 'removed', midA.join(''));
+    pushSegment(segments, 'added', midB.join(''));
+  } else {
+    // Tabela LCS preenchida de trás para frente para permitir a reconstrução em ordem
+    const table = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        table[i * cols + j] = midA[i] === midB[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]); i++; j++;
+      } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+        pushSegment(segments, 'removed', midA[i]); i++;
+      } else {
+        pushSegment(segments, 'added', midB[j]); j++;
+      }
+    }
+    pushSegment(segments, 'removed', midA.slice(i).join(''));
+    pushSegment(segments, 'added', midB.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+};
@@ -0,0 +1,117 @@
+// Empacotamento mínimo de pacotes Opus em contêiner Ogg (RFC 3533 / RFC 7845)
+
+export interface OpusPacket {
+  data: Uint8Array;
+  samples: number; // duração do pacote em amostras a 48 kHz
+}
+
+// Atraso típico do codificador libopus, usado quando o encoder não informa o OpusHead
+const DEFAULT_PRE_SKIP = 312;
+const MAX_SEGMENTS_PER_PAGE = 255;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const lacing = (length: number): number[] => {
+  const values = new Array<number>(Math.floor(length / 255)).fill(255);
+  values.push(length % 255);
+  return values;
+};
+
+const buildPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number): Uint8Array => {
+  const segments = packets.flatMap(p => lacing(p.length));
+  const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + segments.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(4, 0);
+  view.setUint8(5, headerType);
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, segments.length);
+  page.set(segments, 27);
+  let offset = 27 + segments.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, crc32(page), true);
+  return page;
+};
+
+const opusHead = (channels: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, DEFAULT_PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  return head;
+};
+
+const opusTags = (vendor: string): Uint8Array => {
+  const vendorBytes = new TextEncoder().encode(vendor);
+  const tags = new Uint8Array(16 + vendorBytes.length);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendorBytes.length, true);
+  tags.set(vendorBytes, 12);
+  return tags;
+};
+
+interface MuxOptions {
+  channels: number;
+  inputSampleRate: number;
+  totalSamples: number; // amostras originais na taxa de entrada, para cortar o preenchimento final
+  head?: Uint8Array; // OpusHead fornecido pelo codificador, quando disponível
+}
+
+export const muxOggOpus = (packets: OpusPacket[], options: MuxOptions): Blob => {
+  const serial = Math.floor(Math.random() * 0xffffffff);
+  const head = options.head ?? opusHead(options.channels, options.inputSampleRate);
+  const preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+  const endGranule = preSkip + Math.round(options.totalSamples * 48000 / options.inputSampleRate);
+
+  const pages: Uint8Array[] = [
+    buildPage([head], 0, serial, 0, 0x02),
+    buildPage([opusTags('VozNote AI')], 0, serial, 1, 0),
+  ];
+
+  let granule = 0;
+  let pending: Uint8Array[] = [];
+  let pendingSegments = 0;
+  const flush = (last: boolean) => {
+    const position = last ? Math.min(granule, endGranule) : granule;
+    pages.push(buildPage(pending, position, serial, pages.length, last ? 0x04 : 0));
+    pending = [];
+    pendingSegments = 0;
+  };
+
+  packets.forEach((packet, index) => {
+    const segments = lacing(packet.data.length).length;
+    if (pendingSegments + segments > MAX_SEGMENTS_PER_PAGE) flush(false);
+    pending.push(packet.data);
+    pendingSegments += segments;
+    granule += packet.samples;
+    if (index === packets.length - 1) flush(true);
+  });
+
+  return new Blob(pages as BlobPart[], { type: 'audio/ogg' });
+};
@@ -0,0 +1,81 @@
+import { encodeWav } from '../services/audioProcessing';
+import { muxOggOpus, OpusPacket } from '../utils/ogg';
+
+// Codifica o áudio já convertido para mono fora da thread principal.
+// Usa Opus (WebCodecs) quando o navegador suporta; caso contrário, WAV.
+
+export interface EncodeRequest {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export type EncodeResponse =
+  | { blob: Blob; format: 'opus' | 'wav' }
+  | { error: string };
+
+const OPUS_BITRATE = 24000;
+// Tamanho de cada AudioData entregue ao codificador
+const FRAME_SECONDS = 1;
+
+const encodeOpus = async (samples: Float32Array, sampleRate: number): Promise<Blob | null> => {
+  if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return null;
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) return null;
+
+  const packets: OpusPacket[] = [];
+  let head: Uint8Array | undefined;
+  let failure: DOMException | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // Opus usa quadros de 20 ms quando a duração não é informada
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * 48000) / 1_000_000) });
+      const description = metadata?.decoderConfig?.description;
+      if (!head && description) {
+        head = description instanceof ArrayBuffer
+          ? new Uint8Array(description.slice(0))
+          : new Uint8Array(description.buffer.slice(description.byteOffset, description.byteOffset + description.byteLength));
+      }
+    },
+    error: error => { failure = error; },
+  });
+  encoder.configure(config);
+
+  const frameLength = sampleRate * FRAME_SECONDS;
+  for (let offset = 0; offset < samples.length; offset += frameLength) {
+    const frame = samples.slice(offset, offset + frameLength);
+    const audioData = new AudioData({
+      format: 'f32',
+      sampleRate,
+      numberOfChannels: 1,
+      numberOfFrames: frame.length,
+      timestamp: Math.round((offset / sampleRate) * 1_000_000),
+      data: frame,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+
+  if (failure) throw failure;
+  if (packets.length === 0) return null;
+  return muxOggOpus(packets, { channels: 1, inputSampleRate: sampleRate, totalSamples: samples.length, head });
+};
+
+self.onmessage = async (event: MessageEvent<EncodeRequest>) => {
+  const { samples, sampleRate } = event.data;
+  let response: EncodeResponse;
+  try {
+    const opus = await encodeOpus(samples, sampleRate).catch(error => {
+      console.warn("Falha ao codificar em Opus, usando WAV", error);
+      return null;
+    });
+    response = opus ? { blob: opus, format: 'opus' } : { blob: encodeWav(samples, sampleRate), format: 'wav' };
+  } catch (error: any) {
+    response = { error: error?.message || 'Falha ao codificar o áudio.' };
+  }
+  self.postMessage(response);
+};